@@ -1,17 +1,26 @@
-import { VSCodePlayer } from "../../src"
+import { VSCodePlayer, type ChangeStep } from "../../src"
 
-const sampleCode = `function hello() {
-  console.log("Hello from VS Code Player!");
-}
+const snapshots = [
+	`function hello() {\n}`,
+	`function hello() {\n  console.log("Hello from VS Code Player!");\n}`,
+	`function hello() {\n  console.log("Hello from VS Code Player!");\n}\n\nhello();`,
+]
 
-// Try to edit this code
-hello();`
+const recording: ChangeStep[] = snapshots.map((text, index) => ({
+	sequence: index + 1,
+	timeStart: index * 1500,
+	timeEnd: (index + 1) * 1500,
+	text: JSON.stringify({ file: "hello.ts", text }),
+	language: "typescript",
+}))
 
 function App() {
 	return (
 		<div style={{ padding: "2rem" }}>
 			<h1>VS Code Player Demo</h1>
-			<VSCodePlayer content={sampleCode} language="typescript" height="300px" />
+			<VSCodePlayer sourceCode={recording} height="300px">
+				<VSCodePlayer.Controls />
+			</VSCodePlayer>
 		</div>
 	)
 }
@@ -0,0 +1,135 @@
+import React, { useCallback } from "react"
+import type { RecordingActivity } from "../engine/activity"
+
+/**
+ * Number of `--vcp-activity-N` theme variables assigned to the recorded
+ * files, in order of first appearance.
+ */
+const FILE_COLOR_COUNT = 8
+
+interface ActivityStripProps {
+	/**
+	 * The activity of the recording, with times in milliseconds
+	 */
+	activity: RecordingActivity
+
+	/**
+	 * Every recorded file path, in order of first appearance
+	 */
+	files: readonly string[]
+
+	/**
+	 * Current playback time in seconds
+	 */
+	currentTime: number
+
+	/**
+	 * Total duration in seconds
+	 */
+	duration: number
+
+	/**
+	 * Callback when seeking to a specific time in seconds
+	 */
+	onSeek: (time: number) => void
+}
+
+export default function ActivityStrip({
+	activity,
+	files,
+	currentTime,
+	duration,
+	onSeek,
+}: Readonly<ActivityStripProps>) {
+	const toPercentage = (time: number) =>
+		duration > 0 ? (time / duration) * 100 : 0
+
+	const getFileColor = (file: string) => {
+		const index = Math.max(files.indexOf(file), 0) % FILE_COLOR_COUNT
+		return `var(--vcp-activity-${index + 1})`
+	}
+
+	const handleHeatmapClick = useCallback(
+		(e: React.MouseEvent<HTMLDivElement>) => {
+			const rect = e.currentTarget.getBoundingClientRect()
+			const ratio = Math.min(Math.max(0, (e.clientX - rect.left) / rect.width), 1)
+			onSeek(ratio * duration)
+		},
+		[duration, onSeek],
+	)
+
+	/**
+	 * Jumps to the next time the author works on `file`, or to the first one
+	 * if there is none after the current time.
+	 */
+	const jumpToFile = useCallback(
+		(file: string) => {
+			const fileSegments = activity.segments.filter(
+				(segment) => segment.file === file,
+			)
+			const next =
+				fileSegments.find(
+					(segment) => segment.start / 1000 > currentTime + 0.5,
+				) ?? fileSegments[0]
+			if (next) onSeek(next.start / 1000)
+		},
+		[activity, currentTime, onSeek],
+	)
+
+	return (
+		<div className="activity-strip">
+			<div
+				className="activity-heatmap"
+				onClick={handleHeatmapClick}
+				aria-hidden="true"
+			>
+				{activity.density.map((value, index) => (
+					<span
+						// I bucket non cambiano mai ordine
+						key={index}
+						className="activity-bucket"
+						style={{ height: `${value * 100}%` }}
+					/>
+				))}
+				<span
+					className="activity-playhead"
+					style={{ left: `${toPercentage(currentTime)}%` }}
+				/>
+			</div>
+			<div className="activity-files">
+				{activity.segments.map((segment) => (
+					<button
+						key={`${segment.file}-${segment.start}`}
+						type="button"
+						className="activity-segment"
+						style={{
+							left: `${toPercentage(segment.start / 1000)}%`,
+							width: `${toPercentage((segment.end - segment.start) / 1000)}%`,
+							backgroundColor: getFileColor(segment.file),
+						}}
+						onClick={() => onSeek(segment.start / 1000)}
+						title={segment.file}
+						aria-label={`Vai a ${segment.file}`}
+					/>
+				))}
+			</div>
+			<ul className="activity-legend">
+				{files.map((file) => (
+					<li key={file}>
+						<button
+							type="button"
+							onClick={() => jumpToFile(file)}
+							title={`Vai alla prossima modifica di ${file}`}
+						>
+							<span
+								className="activity-swatch"
+								style={{ backgroundColor: getFileColor(file) }}
+							/>
+							{file}
+						</button>
+					</li>
+				))}
+			</ul>
+		</div>
+	)
+}
@@ -1,22 +1,18 @@
 import React, {
-	type ReactElement,
 	useEffect,
 	useState,
 	useCallback,
 	useMemo,
+	useRef,
 	memo,
 } from "react"
 import { Editor, type Monaco } from "@monaco-editor/react"
 import { emmetCSS, emmetHTML, emmetJSX } from "emmet-monaco-es"
 import type { editor } from "monaco-editor"
-import { SiCss3, SiHtml5, SiJavascript, SiTypescript } from "react-icons/si"
+import type { MonacoFile } from "../types"
+import { defaultIconTheme, resolveFileIcon } from "./fileIcons"
 
-export interface MonacoFile {
-	name: string
-	language: string
-	value: string
-	isChanged?: boolean
-}
+export type { MonacoFile }
 export type CodeEditorFilesMap = {
 	[key: string]: { model: editor.ITextModel } & MonacoFile
 }
@@ -31,28 +27,47 @@ interface CodeEditorProps {
 	externalMonaco?: Monaco | null
 	externalSetMonaco?: React.Dispatch<React.SetStateAction<Monaco | null>>
 	toggleTabChange?: boolean
+	/** The file edited by the recording right now. */
+	liveFile?: string
+	/** Whether the visible tab follows the recording. */
+	followRecording?: boolean
+	/** Called when the viewer toggles following the recording or returns to live. */
+	onFollowRecordingChange?: (followRecording: boolean) => void
+	/** Whether the editor is read-only. */
+	readOnly?: boolean
+	/** Whether the viewer can switch tabs. */
+	tabChangeEnabled?: boolean
+	/** Height of the editor in pixels or CSS value. */
+	height?: string | number
+	/** Theme for the Monaco editor. */
+	theme?: string
+	/** Definition registered under `theme` before it is applied. */
+	themeData?: editor.IStandaloneThemeData
+	/** Returns the icon of a file. Defaults to the built-in icon theme. */
+	getFileIcon?: (file: string) => React.ReactNode
 	onFocus?: () => void
 	onTabChange?: (tabFile: string) => void
 	onClick?: () => void
 	onKeyDown?: () => void
 }
 
-const fileIcons: { [key: string]: ReactElement } = {
-	html: <SiHtml5 />,
-	css: <SiCss3 />,
-	js: <SiJavascript />,
-	ts: <SiTypescript />,
-}
-
 const CodeEditor = memo(
 	({
 		files,
 		currenFile,
 		externalEditor,
 		externalSetEditor,
-		externalMonaco,
 		externalSetMonaco,
 		toggleTabChange,
+		liveFile,
+		followRecording = true,
+		onFollowRecordingChange,
+		readOnly = false,
+		tabChangeEnabled = true,
+		height = "300px",
+		theme = "vs-dark",
+		themeData,
+		getFileIcon,
 		onFocus,
 		onTabChange,
 		onClick,
@@ -64,11 +79,12 @@ const CodeEditor = memo(
 		const editorState =
 			externalEditor !== undefined ? externalEditor : localEditorState
 		const setEditorState = externalSetEditor ?? setLocalEditorState
-		const [localMonacoState, setLocalMonacoState] = useState<Monaco | null>(
-			null,
-		)
-		const monacoState = externalMonaco ?? localMonacoState
+		const [, setLocalMonacoState] = useState<Monaco | null>(null)
 		const setMonacoState = externalSetMonaco ?? setLocalMonacoState
+		const monacoRef = useRef<Monaco | null>(null)
+		const viewStates = useRef(
+			new Map<string, editor.ICodeEditorViewState | null>(),
+		)
 
 		useEffect(() => {
 			if (!toggleTabChange && !currenFile) {
@@ -77,34 +93,71 @@ const CodeEditor = memo(
 			setFileName(currenFile)
 		}, [currenFile, toggleTabChange])
 
+		// Mostro il modello del file selezionato, conservando lo stato della vista di ogni file
+		useEffect(() => {
+			const file = files[fileName]
+			if (!editorState || !file) return
+			const currentModel = editorState.getModel()
+			if (currentModel === file.model) return
+			if (currentModel) {
+				viewStates.current.set(
+					currentModel.uri.toString(),
+					editorState.saveViewState(),
+				)
+			}
+			editorState.setModel(file.model)
+			const viewState = viewStates.current.get(file.model.uri.toString())
+			if (viewState) editorState.restoreViewState(viewState)
+		}, [editorState, fileName, files])
+
 		const handleTabChange = useCallback(
 			(tabFile: string) => {
 				setFileName(tabFile)
-				if (!files) return
-				const file = files[tabFile]
-				if (editorState && monacoState) {
-					const model = file.model
-					editorState.setModel(model)
-					monacoState.editor.setModelLanguage(model, file.language)
-					model.setValue(file.value)
-				}
+				onTabChange?.(tabFile)
 			},
-			[files, editorState, monacoState],
+			[onTabChange],
 		)
 
+		// Registro il tema personalizzato prima che l'editor lo applichi
+		const handleBeforeMount = useCallback(
+			(monaco: Monaco) => {
+				if (themeData) monaco.editor.defineTheme(theme, themeData)
+			},
+			[theme, themeData],
+		)
+
+		useEffect(() => {
+			const monaco = monacoRef.current
+			if (!monaco || !themeData) return
+			monaco.editor.defineTheme(theme, themeData)
+			monaco.editor.setTheme(theme)
+		}, [theme, themeData])
+
+		// Ridimensiono Monaco insieme al suo contenitore, che segue il layout del player
+		const surfaceRef = useRef<HTMLDivElement>(null)
+		useEffect(() => {
+			const surface = surfaceRef.current
+			if (!editorState || !surface || typeof ResizeObserver === "undefined") {
+				return
+			}
+			const observer = new ResizeObserver(([entry]) => {
+				const { width, height } = entry.contentRect
+				editorState.layout({ width, height })
+			})
+			observer.observe(surface)
+			return () => observer.disconnect()
+		}, [editorState])
+
 		const handleEditorDidMount = useCallback(
 			(editor: editor.IStandaloneCodeEditor, monaco: Monaco) => {
+				monacoRef.current = monaco
 				emmetHTML(monaco)
 				emmetCSS(monaco)
 				emmetJSX(monaco)
 				setEditorState(editor)
 				setMonacoState(monaco)
-				const file = files[fileName]
-				if (file) {
-					editor.setModel(file.model)
-				}
 			},
-			[files, fileName, setEditorState, setMonacoState],
+			[setEditorState, setMonacoState],
 		)
 
 		const fileButtons = useMemo(() => {
@@ -113,33 +166,81 @@ const CodeEditor = memo(
 					type="button"
 					key={tabFile[0]}
 					onClick={() => handleTabChange(tabFile[0])}
-					className={`inline-flex gap-1 items-center p-2 border-t-3 mr-[0.15rem] hover:bg-[#2e2e2e] text-neutral-200 text-left ${
-						fileName === tabFile[0]
-							? "bg-[#1e1e1e] border-t-[#3399cc]"
-							: "bg-[#34352f] border-t-[#34352f]"
-					} `}
+					disabled={!tabChangeEnabled && fileName !== tabFile[0]}
+					className={`tab${fileName === tabFile[0] ? " active" : ""}`}
 				>
-					{fileIcons[files[tabFile[0]].language]}
+					<span className="file-icon" aria-hidden="true">
+						{getFileIcon
+							? getFileIcon(tabFile[0])
+							: resolveFileIcon(
+									defaultIconTheme,
+									tabFile[0],
+									tabFile[1].language,
+								)}
+					</span>
 					{tabFile[1].name}
+					{!followRecording && liveFile === tabFile[0] && (
+						<span className="tab-live" aria-label="File in registrazione" />
+					)}
+					{tabFile[1].isChanged && fileName !== tabFile[0] && (
+						<span className="tab-badge" aria-label="Modificato" />
+					)}
 				</button>
 			))
-		}, [files, fileName, handleTabChange])
+		}, [
+			files,
+			fileName,
+			followRecording,
+			getFileIcon,
+			handleTabChange,
+			liveFile,
+			tabChangeEnabled,
+		])
 
 		return (
 			<div
-				className="w-full"
+				className="code-editor"
 				onClick={onClick}
 				onKeyDown={onKeyDown}
 				onFocus={onFocus}
 			>
-				<div className="min-h-[300px] h-[300px] w-full">
-					{files && <div>{fileButtons}</div>}
-					<Editor
-						height="100%"
-						width="100%"
-						theme="vs-dark"
-						onMount={handleEditorDidMount}
-					/>
+				<div className="code-editor-body" style={{ height }}>
+					{files && (
+						<div className="tabs">
+							<div className="tab-list">{fileButtons}</div>
+							{onFollowRecordingChange && (
+								<div className="tab-actions">
+									{!followRecording && (
+										<button
+											type="button"
+											className="return-to-live"
+											onClick={() => onFollowRecordingChange(true)}
+										>
+											Torna al live
+										</button>
+									)}
+									<button
+										type="button"
+										className={`follow-toggle${followRecording ? " active" : ""}`}
+										onClick={() => onFollowRecordingChange(!followRecording)}
+										aria-pressed={followRecording}
+									>
+										Segui la registrazione
+									</button>
+								</div>
+							)}
+						</div>
+					)}
+					<div className="code-editor-surface" ref={surfaceRef}>
+						<Editor
+							height="100%"
+							width="100%"
+							theme={theme}
+							options={{ readOnly }}
+							beforeMount={handleBeforeMount}
+							onMount={handleEditorDidMount}
+						/>
+					</div>
 				</div>
 			</div>
 		)
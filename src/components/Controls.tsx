@@ -3,10 +3,19 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import {
 	IoChevronBackSharp,
 	IoChevronForwardSharp,
+	IoContractSharp,
+	IoExpandSharp,
 	IoPauseSharp,
 	IoPlaySharp,
 } from "react-icons/io5"
-import { PlayerState } from "../types"
+import { VscScreenFull, VscScreenNormal } from "react-icons/vsc"
+import { PlayerState, type Chapter, type PlayerLayout } from "../types"
+import {
+	getChapterIndexAt,
+	getNextChapter,
+	getPreviousChapter,
+} from "../engine/chapters"
+import type { CodePreview } from "../engine/preview"
 
 interface ControlsProps {
 	/**
@@ -43,6 +52,118 @@ interface ControlsProps {
 	 * Callback when toggling play/pause
 	 */
 	onPlayPause: () => void
+
+	/**
+	 * Whether to show the progress bar
+	 * @default true
+	 */
+	progressBarEnabled?: boolean
+
+	/**
+	 * Whether to show the speed control
+	 * @default true
+	 */
+	speedControlEnabled?: boolean
+
+	/**
+	 * Whether to show the go forward button and enable its shortcut
+	 * @default true
+	 */
+	goForwardEnabled?: boolean
+
+	/**
+	 * Whether to show the go backward button and enable its shortcut
+	 * @default true
+	 */
+	goBackwardEnabled?: boolean
+
+	/**
+	 * Whether to show the play/pause button and enable its shortcut
+	 * @default true
+	 */
+	playPauseEnabled?: boolean
+
+	/**
+	 * Chapters ordered by time, shown as segments of the progress bar and in the chapter menu
+	 */
+	chapters?: readonly Chapter[]
+
+	/**
+	 * Markers ordered by time, shown as ticks on the progress bar
+	 */
+	markers?: readonly Chapter[]
+
+	/**
+	 * Callback when the viewer jumps to a chapter. Seeks to its start when omitted
+	 */
+	onChapterSelect?: (chapter: Chapter) => void
+
+	/**
+	 * Returns the code shown when hovering the progress bar at a time in seconds.
+	 * The preview is hidden when omitted
+	 */
+	getPreview?: (time: number) => CodePreview | null
+
+	/**
+	 * Whether the recording has captions, showing the captions toggle
+	 * @default false
+	 */
+	captionsAvailable?: boolean
+
+	/**
+	 * Whether the captions are shown
+	 */
+	captionsVisible?: boolean
+
+	/**
+	 * Callback when the viewer shows or hides the captions
+	 */
+	onCaptionsToggle?: () => void
+
+	/**
+	 * Whether the player is in fullscreen
+	 * @default false
+	 */
+	isFullscreen?: boolean
+
+	/**
+	 * Callback when the viewer enters or leaves fullscreen. The fullscreen button is hidden when omitted
+	 */
+	onFullscreenToggle?: () => void
+
+	/**
+	 * Current layout of the player
+	 * @default "compact"
+	 */
+	layout?: PlayerLayout
+
+	/**
+	 * Callback when the viewer switches layout. The theater mode button is hidden when omitted
+	 */
+	onLayoutToggle?: () => void
+}
+
+/**
+ * Distance from a marker, as a percentage of the progress bar, within which
+ * hovering shows its title.
+ */
+const MARKER_HOVER_DISTANCE = 0.75
+
+const noChapters: readonly Chapter[] = []
+
+/**
+ * Returns whether a key press comes from where the viewer types: the editor,
+ * a form field or an editable element. Shortcuts must not swallow it.
+ */
+function isTypingTarget(target: EventTarget | null) {
+	if (!(target instanceof HTMLElement)) return false
+	return (
+		target.isContentEditable ||
+		target.tagName === "INPUT" ||
+		target.tagName === "TEXTAREA" ||
+		target.tagName === "SELECT" ||
+		target.closest(".monaco-editor") !== null
+	)
 }
 
 function formatTime(time: number) {
@@ -65,6 +186,22 @@ export default function Controls({
 	onSeek,
 	onSpeedChange,
 	onPlayPause,
+	progressBarEnabled = true,
+	speedControlEnabled = true,
+	goForwardEnabled = true,
+	goBackwardEnabled = true,
+	playPauseEnabled = true,
+	chapters = noChapters,
+	markers = noChapters,
+	onChapterSelect,
+	getPreview,
+	captionsAvailable = false,
+	captionsVisible = false,
+	onCaptionsToggle,
+	isFullscreen = false,
+	onFullscreenToggle,
+	layout = "compact",
+	onLayoutToggle,
 }: Readonly<ControlsProps>) {
 	const [currentTimeText, setCurrentTimeText] = useState(
 		formatTime(currentTime),
@@ -75,7 +212,15 @@ export default function Controls({
 	const hoverPercentage = useRef(0)
 	const isDragging = useRef(false)
 	const [isOptionsOpen, setIsOptionsOpen] = useState(false)
+	const [isChapterMenuOpen, setIsChapterMenuOpen] = useState(false)
+	const [hoverTitle, setHoverTitle] = useState("")
+	const [preview, setPreview] = useState<CodePreview | null>(null)
+	const currentChapter = chapters[getChapterIndexAt(chapters, currentTime)]
 	const availableSpeeds = [0.25, 0.5, 1, 1.25, 1.5, 2]
+	// Durante il buffering la riproduzione è in corso: il pulsante mette in pausa
+	const isPlaying =
+		playerState === PlayerState.PLAYING ||
+		playerState === PlayerState.BUFFERING
 
 	const getCursorPosition = useCallback((e: MouseEvent) => {
 		if (!progressBar.current) return 0
@@ -85,6 +230,39 @@ export default function Controls({
 		return percentage
 	}, [])
 
+	const toPercentage = (time: number) =>
+		duration > 0 ? (time / duration) * 100 : 0
+
+	/**
+	 * Returns the title of the marker under the pointer, or of the chapter
+	 * playing at the hovered time.
+	 */
+	const getHoverTitle = useCallback(
+		(percentage: number) => {
+			const marker = markers.find(
+				({ time }) =>
+					duration > 0 &&
+					Math.abs((time / duration) * 100 - percentage) <=
+						MARKER_HOVER_DISTANCE,
+			)
+			if (marker) return marker.title
+			const time = (percentage / 100) * duration
+			return chapters[getChapterIndexAt(chapters, time)]?.title ?? ""
+		},
+		[chapters, duration, markers],
+	)
+
+	const selectChapter = useCallback(
+		(chapter: Chapter) => {
+			if (onChapterSelect) {
+				onChapterSelect(chapter)
+			} else {
+				onSeek(chapter.time)
+			}
+		},
+		[onChapterSelect, onSeek],
+	)
+
 	const seek = useCallback(
 		(percentage?: number) => {
 			const time = ((percentage ?? hoverPercentage.current) / 100) * duration
@@ -98,12 +276,19 @@ export default function Controls({
 			const percentage = getCursorPosition(e)
 			hoverPercentage.current = percentage
 			setCurrentTimeText(formatPercentageTime(percentage, duration))
+			setHoverTitle(getHoverTitle(percentage))
+			// Durante il trascinamento l'editor mostra già il codice
+			setPreview(
+				getPreview && !isDragging.current
+					? getPreview((percentage / 100) * duration)
+					: null,
+			)
 			setIsHovering(true)
 			if (isDragging.current) {
 				seek()
 			}
 		},
-		[duration, getCursorPosition, seek],
+		[duration, getCursorPosition, getHoverTitle, getPreview, seek],
 	)
 
 	const handleMouseUp = useCallback(() => {
@@ -137,22 +322,61 @@ export default function Controls({
 
 	useEffect(() => {
 		const handleKeydown = (e: KeyboardEvent) => {
+			if (e.defaultPrevented || isTypingTarget(e.target)) return
 			switch (e.key) {
 				case "ArrowRight":
 				case "l":
 				case "L":
+					if (e.key === "ArrowRight" && (e.ctrlKey || e.metaKey)) {
+						const next = getNextChapter(chapters, currentTime)
+						if (!next) break
+						e.preventDefault()
+						selectChapter(next)
+						break
+					}
+					if (!goForwardEnabled) break
 					e.preventDefault()
 					seekForward()
 					break
 				case "ArrowLeft":
 				case "j":
 				case "J":
+					if (e.key === "ArrowLeft" && (e.ctrlKey || e.metaKey)) {
+						const previous = getPreviousChapter(chapters, currentTime)
+						if (!previous) break
+						e.preventDefault()
+						selectChapter(previous)
+						break
+					}
+					if (!goBackwardEnabled) break
 					e.preventDefault()
 					seekBackward()
 					break
+				case "c":
+				case "C":
+					// Ctrl+C copia il codice selezionato
+					if (e.ctrlKey || e.metaKey || !captionsAvailable || !onCaptionsToggle)
+						break
+					e.preventDefault()
+					onCaptionsToggle()
+					break
+				case "f":
+				case "F":
+					if (e.ctrlKey || e.metaKey || !onFullscreenToggle) break
+					e.preventDefault()
+					onFullscreenToggle()
+					break
+				case "t":
+				case "T":
+					// In fullscreen il layout non cambia nulla
+					if (e.ctrlKey || e.metaKey || !onLayoutToggle || isFullscreen) break
+					e.preventDefault()
+					onLayoutToggle()
+					break
 				case " ":
 				case "k":
 				case "K":
+					if (!playPauseEnabled) break
 					e.preventDefault()
 					onPlayPause()
 					break
@@ -161,112 +385,250 @@ export default function Controls({
 
 		document.addEventListener("keydown", handleKeydown)
 		return () => document.removeEventListener("keydown", handleKeydown)
-	}, [onPlayPause, seekBackward, seekForward])
+	}, [
+		captionsAvailable,
+		chapters,
+		currentTime,
+		goBackwardEnabled,
+		goForwardEnabled,
+		isFullscreen,
+		onCaptionsToggle,
+		onFullscreenToggle,
+		onLayoutToggle,
+		onPlayPause,
+		playPauseEnabled,
+		seekBackward,
+		seekForward,
+		selectChapter,
+	])
 
 	return (
 		<div className="player-controls">
-			<div
-				className="progress-bar-wrapper"
-				onMouseMove={(e) => handleMouseMove(e.nativeEvent)}
-				onMouseLeave={() => setIsHovering(false)}
-				onMouseDown={handleMouseDown}
-				ref={progressBar}
-				aria-valuemin={0}
-				aria-valuemax={duration}
-				aria-valuenow={currentTime}
-				aria-valuetext={currentTimeText}
-				aria-label={`${currentTimeText}/${durationText}`}
-			>
-				<div
-					className="progress"
-					style={{ width: `${(currentTime / duration) * 100}%` }}
-				/>
-				<div
-					className={`circle${isHovering || isDragging.current ? " active" : ""}`}
-					style={{ left: `${(currentTime / duration) * 100}%` }}
-				/>
-				<div
-					className="hover-progress"
-					style={{
-						width: `${hoverPercentage.current}%`,
-						visibility: isHovering ? "visible" : "hidden",
-					}}
-				/>
+			{progressBarEnabled && (
 				<div
-					className="time-hover-text"
-					style={{
-						left: `${hoverPercentage.current}%`,
-						visibility: isHovering ? "visible" : "hidden",
-					}}
+					className="progress-bar-wrapper"
+					onMouseMove={(e) => handleMouseMove(e.nativeEvent)}
+					onMouseLeave={() => setIsHovering(false)}
+					onMouseDown={handleMouseDown}
+					ref={progressBar}
+					aria-valuemin={0}
+					aria-valuemax={duration}
+					aria-valuenow={currentTime}
+					aria-valuetext={currentTimeText}
+					aria-label={`${currentTimeText}/${durationText}`}
 				>
-					{currentTimeText}
+					<div
+						className="progress"
+						style={{ width: `${toPercentage(currentTime)}%` }}
+					/>
+					{chapters
+						.filter(({ time }) => time > 0)
+						.map((chapter) => (
+							<span
+								key={`chapter-${chapter.time}-${chapter.title}`}
+								className="chapter-divider"
+								style={{ left: `${toPercentage(chapter.time)}%` }}
+							/>
+						))}
+					{markers.map((marker) => (
+						<span
+							key={`marker-${marker.time}-${marker.title}`}
+							className="progress-marker"
+							style={{ left: `${toPercentage(marker.time)}%` }}
+						/>
+					))}
+					<div
+						className={`circle${isHovering || isDragging.current ? " active" : ""}`}
+						style={{ left: `${toPercentage(currentTime)}%` }}
+					/>
+					<div
+						className="hover-progress"
+						style={{
+							width: `${hoverPercentage.current}%`,
+							visibility: isHovering ? "visible" : "hidden",
+						}}
+					/>
+					<div
+						className="time-hover-text"
+						style={{
+							left: `${hoverPercentage.current}%`,
+							visibility: isHovering ? "visible" : "hidden",
+						}}
+					>
+						{preview && (
+							<div className="code-preview" aria-hidden="true">
+								<div className="code-preview-file">{preview.file}</div>
+								<pre>
+									{preview.lines.map((line, i) => {
+										const lineNumber = preview.startLine + i
+										return (
+											<div
+												key={lineNumber}
+												className={`code-preview-line${lineNumber === preview.focusLine ? " focus" : ""}`}
+											>
+												<span className="code-preview-number">{lineNumber}</span>
+												{line}
+											</div>
+										)
+									})}
+								</pre>
+							</div>
+						)}
+						{hoverTitle && <span className="chapter-title">{hoverTitle}</span>}
+						{currentTimeText}
+					</div>
 				</div>
-			</div>
+			)}
 
 			<div className="controls">
 				<div className="left">
-					<button
-						type="button"
-						onClick={seekBackward}
-						className="text-xl"
-						aria-label="Indietro di 5 secondi"
-					>
-						<IoChevronBackSharp /> 5s
-					</button>
-					<button
-						type="button"
-						onClick={onPlayPause}
-						className="text-3xl"
-						aria-label={playerState === PlayerState.PLAYING ? "Pausa" : "Play"}
-					>
-						{playerState === PlayerState.PLAYING ? (
-							<IoPauseSharp />
-						) : (
-							<IoPlaySharp />
-						)}
-					</button>
-					<button
-						type="button"
-						onClick={seekForward}
-						className="text-xl"
-						aria-label="Avanti di 5 secondi"
-					>
-						5s <IoChevronForwardSharp />
-					</button>
+					{goBackwardEnabled && (
+						<button
+							type="button"
+							onClick={seekBackward}
+							className="control-button"
+							aria-label="Indietro di 5 secondi"
+						>
+							<IoChevronBackSharp /> 5s
+						</button>
+					)}
+					{playPauseEnabled && (
+						<button
+							type="button"
+							onClick={onPlayPause}
+							className="control-button play-pause"
+							aria-label={isPlaying ? "Pausa" : "Play"}
+						>
+							{isPlaying ? (
+								<IoPauseSharp />
+							) : (
+								<IoPlaySharp />
+							)}
+						</button>
+					)}
+					{goForwardEnabled && (
+						<button
+							type="button"
+							onClick={seekForward}
+							className="control-button"
+							aria-label="Avanti di 5 secondi"
+						>
+							5s <IoChevronForwardSharp />
+						</button>
+					)}
 					<div>
 						{formatTime(currentTime)} / {durationText}
 					</div>
 				</div>
 
 				<div className="right">
-					<div className="relative">
+					{captionsAvailable && onCaptionsToggle && (
 						<button
 							type="button"
-							className="text-xl"
-							onClick={() => setIsOptionsOpen(!isOptionsOpen)}
-							aria-label="Velocità di riproduzione"
+							className={`captions-toggle${captionsVisible ? " active" : ""}`}
+							onClick={onCaptionsToggle}
+							aria-label="Sottotitoli"
+							aria-pressed={captionsVisible}
 						>
-							{currentSpeed}x
+							CC
 						</button>
-						{isOptionsOpen && (
-							<div className="speed-menu">
-								{availableSpeeds.map((speed) => (
-									<button
-										key={speed}
-										type="button"
-										className={`speed-option${speed === currentSpeed ? " active" : ""}`}
-										onClick={() => {
-											onSpeedChange(speed)
-											setIsOptionsOpen(false)
-										}}
-										role="menuitem"
-									>
-										{speed}x
-									</button>
-								))}
-							</div>
-						)}
-					</div>
+					)}
+					{chapters.length > 0 && (
+						<div className="menu-anchor">
+							<button
+								type="button"
+								className="chapter-button"
+								onClick={() => {
+									setIsChapterMenuOpen(!isChapterMenuOpen)
+									setIsOptionsOpen(false)
+								}}
+								aria-label="Capitoli"
+								aria-haspopup="menu"
+							>
+								{currentChapter?.title ?? "Capitoli"}
+							</button>
+							{isChapterMenuOpen && (
+								<div className="chapter-menu" role="menu">
+									{chapters.map((chapter) => (
+										<button
+											key={`${chapter.time}-${chapter.title}`}
+											type="button"
+											className={`chapter-option${chapter === currentChapter ? " active" : ""}`}
+											onClick={() => {
+												selectChapter(chapter)
+												setIsChapterMenuOpen(false)
+											}}
+											role="menuitem"
+										>
+											<span className="chapter-time">
+												{formatTime(chapter.time)}
+											</span>
+											{chapter.title}
+										</button>
+									))}
+								</div>
+							)}
+						</div>
+					)}
+					{speedControlEnabled && (
+						<div className="menu-anchor">
+							<button
+								type="button"
+								className="control-button"
+								onClick={() => {
+									setIsOptionsOpen(!isOptionsOpen)
+									setIsChapterMenuOpen(false)
+								}}
+								aria-label="Velocità di riproduzione"
+							>
+								{currentSpeed}x
+							</button>
+							{isOptionsOpen && (
+								<div className="speed-menu">
+									{availableSpeeds.map((speed) => (
+										<button
+											key={speed}
+											type="button"
+											className={`speed-option${speed === currentSpeed ? " active" : ""}`}
+											onClick={() => {
+												onSpeedChange(speed)
+												setIsOptionsOpen(false)
+											}}
+											role="menuitem"
+										>
+											{speed}x
+										</button>
+									))}
+								</div>
+							)}
+						</div>
+					)}
+					{onLayoutToggle && !isFullscreen && (
+						<button
+							type="button"
+							className="control-button"
+							onClick={onLayoutToggle}
+							aria-label={
+								layout === "theater" ? "Modalità compatta" : "Modalità cinema"
+							}
+							aria-pressed={layout === "theater"}
+						>
+							{layout === "theater" ? <VscScreenNormal /> : <VscScreenFull />}
+						</button>
+					)}
+					{onFullscreenToggle && (
+						<button
+							type="button"
+							className="control-button"
+							onClick={onFullscreenToggle}
+							aria-label={
+								isFullscreen ? "Esci da schermo intero" : "Schermo intero"
+							}
+							aria-pressed={isFullscreen}
+						>
+							{isFullscreen ? <IoContractSharp /> : <IoExpandSharp />}
+						</button>
+					)}
 				</div>
 			</div>
 		</div>
@@ -0,0 +1,113 @@
+import React, { useCallback, useMemo, useState } from "react"
+import { IoChevronDownSharp, IoChevronForwardSharp } from "react-icons/io5"
+import { buildFileTree, type FileTreeNode } from "../engine/fileTree"
+
+interface FileExplorerProps {
+	/**
+	 * Every recorded file path
+	 */
+	files: readonly string[]
+
+	/**
+	 * Files that exist at the current time. Only these can be opened
+	 */
+	availableFiles: readonly string[]
+
+	/**
+	 * The file edited by the recording right now
+	 */
+	liveFile: string
+
+	/**
+	 * The file shown in the editor
+	 */
+	openFile: string
+
+	/**
+	 * Callback when the viewer opens a file. Files cannot be opened without it.
+	 */
+	onOpenFile?: (file: string) => void
+
+	/**
+	 * Returns the icon of a file. Files have no icon without it.
+	 */
+	getFileIcon?: (file: string) => React.ReactNode
+}
+
+export default function FileExplorer({
+	files,
+	availableFiles,
+	liveFile,
+	openFile,
+	onOpenFile,
+	getFileIcon,
+}: Readonly<FileExplorerProps>) {
+	const tree = useMemo(() => buildFileTree(files), [files])
+	const available = useMemo(() => new Set(availableFiles), [availableFiles])
+	const [collapsedFolders, setCollapsedFolders] = useState<
+		Record<string, boolean>
+	>({})
+
+	const toggleFolder = useCallback((path: string) => {
+		setCollapsedFolders((prev) => ({ ...prev, [path]: !prev[path] }))
+	}, [])
+
+	const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+		const style = { paddingLeft: `${depth * 0.75 + 0.5}rem` }
+
+		if (node.type === "folder") {
+			const isCollapsed = !!collapsedFolders[node.path]
+			return (
+				<li key={node.path} role="treeitem" aria-expanded={!isCollapsed}>
+					<button
+						type="button"
+						className="explorer-item explorer-folder"
+						style={style}
+						onClick={() => toggleFolder(node.path)}
+					>
+						{isCollapsed ? <IoChevronForwardSharp /> : <IoChevronDownSharp />}
+						{node.name}
+					</button>
+					{!isCollapsed && (
+						<ul role="group">
+							{node.children.map((child) => renderNode(child, depth + 1))}
+						</ul>
+					)}
+				</li>
+			)
+		}
+
+		const classNames = ["explorer-item", "explorer-file"]
+		if (node.path === openFile) classNames.push("open")
+		if (node.path === liveFile) classNames.push("live")
+		const isAvailable = available.has(node.path)
+		if (!isAvailable) classNames.push("unavailable")
+
+		return (
+			<li key={node.path} role="treeitem" aria-selected={node.path === openFile}>
+				<button
+					type="button"
+					className={classNames.join(" ")}
+					style={style}
+					onClick={() => onOpenFile?.(node.path)}
+					disabled={!onOpenFile || !isAvailable}
+					title={node.path}
+				>
+					{getFileIcon && (
+						<span className="file-icon" aria-hidden="true">
+							{getFileIcon(node.path)}
+						</span>
+					)}
+					{node.name}
+				</button>
+			</li>
+		)
+	}
+
+	return (
+		<nav className="file-explorer" aria-label="Esplora file">
+			<div className="explorer-title">Esplora</div>
+			<ul role="tree">{tree.map((node) => renderNode(node, 0))}</ul>
+		</nav>
+	)
+}
@@ -0,0 +1,58 @@
+import React from "react"
+
+interface SandboxPromptProps {
+	/**
+	 * The files edited by the viewer
+	 */
+	editedFiles: readonly string[]
+
+	/**
+	 * Callback when the viewer discards the edits
+	 */
+	onDiscard: () => void
+
+	/**
+	 * Callback when the viewer exports the edits. The export button is hidden without it.
+	 */
+	onExport?: () => void
+
+	/**
+	 * Callback when the viewer keeps editing. The button is hidden without it,
+	 * when playback has already resumed
+	 */
+	onCancel?: () => void
+}
+
+export default function SandboxPrompt({
+	editedFiles,
+	onDiscard,
+	onExport,
+	onCancel,
+}: Readonly<SandboxPromptProps>): React.ReactElement {
+	return (
+		<div className="sandbox-prompt" role="alertdialog" aria-modal="true">
+			<div className="sandbox-dialog">
+				<p>
+					Hai modificato {editedFiles.length === 1 ? "un file" : "alcuni file"}{" "}
+					durante la pausa: {editedFiles.join(", ")}.
+				</p>
+				<p>Riprendendo verrà ripristinato il codice della registrazione.</p>
+				<div className="sandbox-actions">
+					{onCancel && (
+						<button type="button" onClick={onCancel}>
+							Continua a modificare
+						</button>
+					)}
+					{onExport && (
+						<button type="button" onClick={onExport}>
+							Esporta e riprendi
+						</button>
+					)}
+					<button type="button" className="primary" onClick={onDiscard}>
+						Scarta e riprendi
+					</button>
+				</div>
+			</div>
+		</div>
+	)
+}
@@ -1,104 +1,133 @@
 import React, {
+	forwardRef,
 	useCallback,
 	useContext,
 	useEffect,
+	useImperativeHandle,
 	useMemo,
 	useRef,
 	useState,
 } from "react"
-import CodeEditor, { type MonacoFile } from "./CodeEditor"
-import type { ChangeStep } from "../types"
-import * as Diff from "diff"
+import CodeEditor, { type CodeEditorFilesMap } from "./CodeEditor"
+import type {
+	CaptionCue,
+	Chapter,
+	PlayerLayout,
+	TypewriterOptions,
+	VSCodePlayerHandle,
+	VSCodePlayerOptions,
+	VSCodePlayerProps,
+} from "../types"
 import type { editor } from "monaco-editor"
 import { PlayerState } from "../types"
 import type { Monaco } from "@monaco-editor/react"
-import { throttle } from "../utils"
+import {
+	createSnapshotEngine,
+	type AuthorCursor,
+	type AuthorViewport,
+	type RecordedStep,
+} from "../engine/snapshot"
+import {
+	createTypewriter,
+	type TypewriterInsert,
+} from "../engine/typewriter"
+import { createStaticSource, isRecordingSource } from "../format/source"
+import { createWorkspace, type Workspace } from "../editor/workspace"
+import { registerLanguages, resolveLanguage } from "../editor/languages"
 import Controls from "./Controls"
-
-interface VsCodePlayerOptions {
-	editor?: {
-		editingEnabled?: boolean
-		tabChangeEnabled?: boolean
-	}
-	controls?: {
-		enabled?: boolean
-		progressBarEnabled?: boolean
-		speedControlEnabled?: boolean
-		goForwardEnabled?: boolean
-		goBackwardEnabled?: boolean
-		playPauseEnabled?: boolean
-	}
-}
+import FileExplorer from "./FileExplorer"
+import SandboxPrompt from "./SandboxPrompt"
+import { usePlaybackClock } from "../hooks/usePlaybackClock"
+import { usePrefersColorScheme } from "../hooks/usePrefersColorScheme"
+import { useFullscreen } from "../hooks/useFullscreen"
+import { isAdaptiveTheme, resolveTheme } from "../editor/theme"
+import { normalizeChapters } from "../engine/chapters"
+import { computeActivity, type RecordingActivity } from "../engine/activity"
+import ActivityStrip from "./ActivityStrip"
+import { mergeIconThemes, resolveFileIcon } from "./fileIcons"
+import { createPreview, type CodePreview } from "../engine/preview"
+import { parseCaptions } from "../format/captions"
+import { getActiveCue } from "../engine/captions"
 
 /**
- * Represents the props for the VSCodePlayer component.
- * @property {string} sourceCode - The source code to be displayed in the code editor.
- * @property {number} currentTime - The current time of the player.
- * @property {PlayerState} playerState - The state of the player.
- * @property {number} currentSpeed - The current speed of the player.
- * @property {Options} options - The options for the player.
- * @property {React.ReactNode} children - Children components
+ * The options of the player with every default applied.
  */
-interface VsCodePlayerProps {
-	/** The source code to be displayed in the code editor. */
-	sourceCode: string
-	/** The current time of the player. */
-	currentTime: number
-	/** The state of the player. */
-	playerState: PlayerState
-	/** The current speed of the player. */
-	currentSpeed?: number
-	/** The options for the player. */
-	options?: VsCodePlayerOptions
-	/** Children components */
-	children?: React.ReactNode
+interface ResolvedPlayerOptions {
+	editor: Required<
+		Omit<NonNullable<VSCodePlayerOptions["editor"]>, "typewriter">
+	> & { typewriter: Required<TypewriterOptions> }
+	controls: Required<NonNullable<VSCodePlayerOptions["controls"]>>
 }
+
 /**
- * Represents a line of text from a subtitle file (SRT) along with the file it belongs to.
- * @property {string} text - The text content of the subtitle line.
- * @property {string} file - The file that the subtitle line belongs to.
+ * Applies the default values to the player options.
+ *
+ * @param {VSCodePlayerOptions} options - The options passed to the player.
+ * @returns {ResolvedPlayerOptions} - The options with every flag set.
  */
-interface StepText {
-	text: string
-	file: string
+function resolveOptions({
+	editor = {},
+	controls = {},
+}: VSCodePlayerOptions = {}): ResolvedPlayerOptions {
+	return {
+		editor: {
+			editingEnabled: editor.editingEnabled ?? true,
+			tabChangeEnabled: editor.tabChangeEnabled ?? true,
+			sandboxEnabled: editor.sandboxEnabled ?? false,
+			typewriter: {
+				enabled: editor.typewriter?.enabled ?? false,
+				threshold: editor.typewriter?.threshold ?? 40,
+				granularity: editor.typewriter?.granularity ?? "character",
+			},
+		},
+		controls: {
+			enabled: controls.enabled ?? true,
+			progressBarEnabled: controls.progressBarEnabled ?? true,
+			speedControlEnabled: controls.speedControlEnabled ?? true,
+			goForwardEnabled: controls.goForwardEnabled ?? true,
+			goBackwardEnabled: controls.goBackwardEnabled ?? true,
+			playPauseEnabled: controls.playPauseEnabled ?? true,
+			previewEnabled: controls.previewEnabled ?? true,
+			fullscreenEnabled: controls.fullscreenEnabled ?? true,
+			layoutToggleEnabled: controls.layoutToggleEnabled ?? true,
+		},
+	}
 }
 
 /**
- * Represents the options for a change event in a Monaco editor.
- * @property {editor.IIdentifiedSingleEditOperation["range"]} range - The range of the edit operation.
- * @property {string} text - The new text to be inserted.
- * @property {string} targetText - The text that was replaced.
+ * Maximum number of steps applied one by one between two frames. Longer
+ * jumps, such as seeks, diff the files instead.
  */
-interface MonacoEditorChangeOptions {
-	range: editor.IIdentifiedSingleEditOperation["range"]
-	text: string
-	targetText: string
-}
+const MAX_DELTA_STEPS = 200
 
 /**
- * Represents the changes made to a range of text in a document.
- * @property {number} rangeOffset - The offset of the changed range from the start of the document.
- * @property {number} rangeLength - The length of the changed range.
- * @property {string} rangeText - The new text that was inserted or replaced.
- * @property {string} originalText - The original text that was replaced.
- * @property {string} targetText - The text that the range was changed to.
+ * Number of time buckets of the edit density shown by `VSCodePlayer.Activity`.
  */
-interface Changes2DRange {
-	rangeOffset: number
-	rangeLength: number
-	rangeText: string
-	originalText: string
-	targetText: string
-}
+const ACTIVITY_BUCKETS = 120
 
 interface PlayerContextType {
 	currentTime: number
 	duration: number
 	playerState: PlayerState
 	currentSpeed: number
+	options: ResolvedPlayerOptions
+	chapters: Chapter[]
+	markers: Chapter[]
+	files: readonly string[]
+	activity: RecordingActivity
+	getPreview: (time: number) => CodePreview | null
+	captions: CaptionCue[]
+	activeCue: CaptionCue | null
+	captionsVisible: boolean
+	layout: PlayerLayout
+	isFullscreen: boolean
 	onSeek?: (time: number) => void
 	onSpeedChange?: (speed: number) => void
 	onPlayPause?: () => void
+	onChapterSelect?: (chapter: Chapter) => void
+	onCaptionsToggle?: () => void
+	onLayoutToggle?: () => void
+	onFullscreenToggle?: () => void
 }
 
 const PlayerContext = React.createContext<PlayerContextType | null>(null)
@@ -112,415 +141,608 @@ export const usePlayer = () => {
 	return context
 }
 
-function VsCodePlayer({
-	sourceCode,
-	currentTime,
-	playerState,
-	currentSpeed = 1,
-	children,
-	onSeek,
-	onSpeedChange,
-	onPlayPause,
-}: Readonly<
-	VsCodePlayerProps & {
-		onSeek?: (time: number) => void
-		onSpeedChange?: (speed: number) => void
-		onPlayPause?: () => void
-	}
->) {
-	const currentFilePathRef = useRef("")
+function VsCodePlayerBase(
+	{
+		sourceCode,
+		currentTime: controlledTime,
+		playerState: controlledState = PlayerState.UNSTARTED,
+		currentSpeed: controlledSpeed = 1,
+		initialSpeed,
+		autoPlay = false,
+		height = "300px",
+		width = "100%",
+		fill = false,
+		initialLayout = "compact",
+		theme = "dark",
+		showExplorer = false,
+		languages,
+		iconTheme,
+		chapters,
+		showFileMarkers = false,
+		captions,
+		captionsPosition = "overlay",
+		options,
+		children,
+		onSeek,
+		onSpeedChange,
+		onPlayPause,
+		onEnded,
+		onSandboxExport,
+		onStateChange,
+		onTimeUpdate,
+		onError,
+		onCueChange,
+		onLayoutChange,
+		onFullscreenChange,
+	}: Readonly<VSCodePlayerProps>,
+	ref: React.ForwardedRef<VSCodePlayerHandle>,
+) {
 	const [currentFile, setCurrentFile] = useState("")
-	const timeouts = useRef(new Map<number, NodeJS.Timeout>())
-	const sourceCodeArray = useMemo(
-		() => JSON.parse(sourceCode) as ChangeStep[],
+	// Gli array e le sorgenti si confrontano per riferimento: serializzarli a ogni
+	// render costerebbe troppo sulle registrazioni lunghe
+	const source = useMemo(
+		() =>
+			isRecordingSource(sourceCode)
+				? sourceCode
+				: createStaticSource(sourceCode),
 		[sourceCode],
 	)
 
-	const [filteredArray, setFilteredArray] = useState([] as ChangeStep[])
-	const files = useRef<
-		Record<string, { model: editor.ITextModel } & MonacoFile>
-	>({})
+	const engine = useMemo(
+		() => createSnapshotEngine(source.getSteps()),
+		[source],
+	)
+	const [, setSourceVersion] = useState(0)
+	const loadError = source.getError()
+	const isLoading = !source.isComplete()
+
+	// Aggiungo al motore gli step che arrivano mentre la registrazione si carica
+	useEffect(() => {
+		const update = () => {
+			const steps = source.getSteps()
+			if (steps.length > engine.steps.length) {
+				engine.append(steps.slice(engine.steps.length))
+			}
+			setSourceVersion((prev) => prev + 1)
+		}
+		update()
+		return source.subscribe(update)
+	}, [engine, source])
+
 	const [editorState, setEditorState] =
 		useState<editor.IStandaloneCodeEditor | null>(null)
 	const [monacoState, setMonacoState] = useState<Monaco | null>(null)
-	const prevVideoSpeed = useRef(1)
-	const currentTimeRef = useRef(currentTime)
+	const [workspace, setWorkspace] = useState<Workspace | null>(null)
 	const [toggleTabChange, setToggleTabChange] = useState(false)
-	const lastUpdateTime = useRef(0)
+	const renderedFrame = useRef<{
+		stepIndex: number
+		insert: TypewriterInsert | null
+	} | null>(null)
+	const [editorFiles, setEditorFiles] = useState<CodeEditorFilesMap>({})
+	const resolvedOptions = useMemo(() => resolveOptions(options), [options])
+	const { editingEnabled, tabChangeEnabled, sandboxEnabled, typewriter } =
+		resolvedOptions.editor
+	const typeOut = useMemo(() => createTypewriter(engine), [engine])
+	const sandboxEnabledRef = useRef(sandboxEnabled)
+	const languagesRef = useRef(languages)
+	languagesRef.current = languages
+	sandboxEnabledRef.current = sandboxEnabled
+	const [sandboxFiles, setSandboxFiles] = useState<string[]>([])
+	const [pendingAction, setPendingAction] = useState<{
+		resume: () => void
+		cancelable: boolean
+	} | null>(null)
+	const [followRecordingState, setFollowRecording] = useState(true)
+	const followRecording = tabChangeEnabled ? followRecordingState : true
+	const [viewedFile, setViewedFile] = useState("")
+	const [availableFiles, setAvailableFiles] = useState<string[]>([])
+	const [openTabs, setOpenTabs] = useState<string[]>([])
+	const [authorFocus, setAuthorFocus] = useState<
+		AuthorCursor | AuthorViewport | null
+	>(null)
+	const displayedFile = followRecording ? currentFile : viewedFile
+	const followRecordingRef = useRef(followRecording)
+	const displayedFileRef = useRef(displayedFile)
+	followRecordingRef.current = followRecording
+	displayedFileRef.current = displayedFile
 
-	// Calcolo la durata totale dal sourceCode
-	const duration = useMemo(() => {
-		const array = JSON.parse(sourceCode) as ChangeStep[]
-		if (array.length === 0) return 0
-		return array[array.length - 1].timeEnd / 1000 // Converti da millisecondi a secondi
-	}, [sourceCode])
+	// Converti da millisecondi a secondi
+	const duration = engine.duration / 1000
 
 	/**
-	 * Determines the language mode for a given file based on its file extension.
+	 * Renders the exact state of the recording at the given time in the editor.
 	 *
-	 * @param file - The file name, including the file extension.
-	 * @returns The language mode for the file, or 'auto' if the extension is not recognized.
+	 * @param {number} time - The time in seconds to render.
 	 */
-	const getLanguage = useCallback((file: string) => {
-		const extension = file.split(".").pop()
-		switch (extension) {
-			case "js":
-				return "javascript"
-			case "ts":
-				return "typescript"
-			case "html":
-				return "html"
-			case "css":
-				return "css"
-			default:
-				return "auto"
-		}
-	}, [])
-
-	//simulate file onChange event with monaco editor with only changes not entire file
-	const handleEditorChange = useCallback(
-		(
-			{ range, text, targetText }: MonacoEditorChangeOptions,
-			fileChanged = false,
-		) => {
-			if (!editorState || !monacoState || !range) return
-			const file = files.current[currentFilePathRef.current]
-			if (!file) return
-
-			const model = file.model
-			if (!model) return
-
-			if (fileChanged) {
-				editorState.executeEdits("", [
-					{
-						range: model.getFullModelRange(),
-						text: file.value,
-					},
-				])
-			}
+	const renderSnapshot = useCallback(
+		(time: number) => {
+			if (!workspace) return
 
-			//create edit operation
-			const editOp: editor.IIdentifiedSingleEditOperation = {
-				range,
-				text,
-				forceMoveMarkers: false,
+			const exactSnapshot = engine.getSnapshotAt(time * 1000)
+			const { snapshot, insert } = typewriter.enabled
+				? typeOut(exactSnapshot, typewriter)
+				: { snapshot: exactSnapshot, insert: null }
+			const previous = renderedFrame.current
+			if (
+				previous?.stepIndex === snapshot.stepIndex &&
+				previous.insert?.revealed === insert?.revealed
+			) {
+				return
 			}
-			monacoState.editor.setModelLanguage(model, file.language)
-
-			//push changes to editor
-			model.pushEditOperations([], [editOp], () => null)
+			renderedFrame.current = { stepIndex: snapshot.stepIndex, insert }
 
-			// ensure value is set
-			if (model.getValue() !== targetText) {
-				model.setValue(targetText)
+			const visibleFile =
+				followRecordingRef.current && snapshot.activeFile
+					? snapshot.activeFile
+					: displayedFileRef.current
+			// Durante la riproduzione applico i delta come modifiche di Monaco
+			let steps: RecordedStep[] = []
+			if (previous?.insert || insert) {
+				// Mentre scrivo un inserimento aggiungo solo i caratteri nuovi
+				if (
+					previous?.insert &&
+					insert &&
+					previous.stepIndex === snapshot.stepIndex &&
+					insert.revealed > previous.insert.revealed
+				) {
+					const typed = previous.insert.revealed
+					steps = [
+						{
+							...engine.steps[snapshot.stepIndex],
+							edit: { rangeOffset: insert.offset + typed, rangeLength: 0 },
+							text: insert.text.slice(typed, insert.revealed),
+						},
+					]
+				}
+			} else if (
+				previous &&
+				snapshot.stepIndex > previous.stepIndex &&
+				snapshot.stepIndex - previous.stepIndex <= MAX_DELTA_STEPS
+			) {
+				steps = engine.steps.slice(
+					previous.stepIndex + 1,
+					snapshot.stepIndex + 1,
+				)
+			}
+			const changedFiles = workspace.sync(snapshot, {
+				preserveUserEdits: sandboxEnabledRef.current,
+				steps,
+			})
+			for (const file of changedFiles) {
+				if (file !== visibleFile) workspace.files[file].isChanged = true
+			}
+			workspace.setAuthorCursor(snapshot.cursor)
+			const { cursor, viewport } = snapshot
+			const focus =
+				cursor && (!viewport || cursor.stepIndex > viewport.stepIndex)
+					? cursor
+					: viewport
+			setAuthorFocus((prev) =>
+				prev?.stepIndex === focus?.stepIndex ? prev : focus,
+			)
+			if (workspace.files[visibleFile]) {
+				workspace.files[visibleFile].isChanged = false
 			}
+			if (snapshot.activeFile) setCurrentFile(snapshot.activeFile)
+			setAvailableFiles(Object.keys(snapshot.files))
+			setEditorFiles({ ...workspace.files })
+			setToggleTabChange((prev) => !prev)
 		},
-		[editorState, monacoState],
+		[engine, typeOut, typewriter, workspace],
 	)
 
 	/**
-	 * Calculates the differences between two strings and returns a 2D range of changes.
-	 *
-	 * This function uses the `diff-match-patch` library to calculate the differences between the `originalText` and `text` strings. It returns an object containing the following properties:
-	 *
-	 * - `rangeOffset`: The starting offset of the changed range.
-	 * - `rangeLength`: The length of the changed range.
-	 * - `rangeText`: The text to be inserted at the changed range.
-	 * - `originalText`: The original text.
-	 * - `targetText`: The target text.
-	 *
-	 * If the `originalText` and `text` are the same, the function returns `null`.
+	 * Marks a file as read and refreshes the tabs.
 	 *
-	 * @param {string} text - The target text to compare against the original text.
-	 * @param {string} originalText - The original text to compare against the target text.
-	 * @returns {Changes2DRange | null} - An object containing the details of the changes, or `null` if there are no changes.
+	 * @param {string} file - The file the viewer is looking at.
 	 */
-	const getTextDifference2DRanges = useCallback(
-		(text: string, originalText: string): Changes2DRange | null => {
-			if (originalText === text) return null
-
-			const lineLengthsCache = new Map<string, number>()
-			const getLineLength = (line: string) => {
-				if (lineLengthsCache.has(line)) {
-					const length = lineLengthsCache.get(line)
-					if (length === undefined) return line.length
-					return length
-				}
-				const length = line.length
-				lineLengthsCache.set(line, length)
-				return length
-			}
+	const markAsRead = useCallback(
+		(file: string) => {
+			if (!workspace?.files[file]) return
+			workspace.files[file].isChanged = false
+			setEditorFiles({ ...workspace.files })
+		},
+		[workspace],
+	)
 
-			const processUnchangedPart = (
-				part: Diff.Change,
-				isLast: boolean,
-				state: {
-					changes: number
-					additions: number
-					deletions: number
-					rangeOffset: number
-					rangeLength: number
-					rangeText: string
-				},
-			) => {
-				if (!state.changes) {
-					state.rangeOffset += getLineLength(part.value)
-				}
+	const handleTabChange = useCallback(
+		(file: string) => {
+			setViewedFile(file)
+			if (file !== currentFile) setFollowRecording(false)
+			markAsRead(file)
+		},
+		[currentFile, markAsRead],
+	)
 
-				if (state.changes && !isLast) {
-					state.rangeLength += getLineLength(part.value)
-				}
+	const handleFollowRecordingChange = useCallback(
+		(follow: boolean) => {
+			setFollowRecording(follow)
+			if (follow) {
+				markAsRead(currentFile)
+			} else {
+				setViewedFile(currentFile)
+			}
+		},
+		[currentFile, markAsRead],
+	)
 
-				if (state.additions && !isLast) {
-					state.rangeText += part.value
+	const isControlled = controlledTime !== undefined
+	const {
+		currentTime,
+		playerState,
+		currentSpeed,
+		seek: seekClock,
+		setSpeed: setClockSpeed,
+		togglePlay,
+		getTime,
+		isRunning,
+	} = usePlaybackClock({
+		controlled: isControlled
+			? {
+					currentTime: controlledTime,
+					playerState: controlledState,
+					currentSpeed: controlledSpeed,
 				}
+			: undefined,
+		duration,
+		initialSpeed: initialSpeed ?? controlledSpeed,
+		autoPlay,
+		buffering: isLoading,
+		onEnded,
+		onFrame: renderSnapshot,
+	})
+	// In attesa di nuovi step il player conta come in riproduzione
+	const isPlaying =
+		playerState === PlayerState.PLAYING ||
+		playerState === PlayerState.BUFFERING
 
-				if (state.deletions && !state.additions && !isLast) {
-					state.rangeLength -= getLineLength(part.value)
-				}
-			}
+	const handleSeek = useCallback(
+		(time: number) => {
+			if (!isControlled) seekClock(time)
+			onSeek?.(time)
+		},
+		[isControlled, onSeek, seekClock],
+	)
 
-			const state = {
-				rangeOffset: 0,
-				rangeLength: 0,
-				rangeText: "",
-				changes: 0,
-				deletions: 0,
-				additions: 0,
-			}
+	const handleSpeedChange = useCallback(
+		(speed: number) => {
+			if (!isControlled) setClockSpeed(speed)
+			onSpeedChange?.(speed)
+		},
+		[isControlled, onSpeedChange, setClockSpeed],
+	)
 
-			const diff = Diff.diffChars(originalText, text)
-
-			for (let i = 0; i < diff.length; i++) {
-				const part = diff[i]
-				const isLast = i === diff.length - 1
-
-				if (part.added) {
-					state.rangeText += part.value
-					state.changes++
-					state.additions++
-				} else if (part.removed) {
-					state.rangeLength += getLineLength(part.value)
-					state.changes++
-					state.deletions++
-				} else {
-					processUnchangedPart(part, isLast, state)
-				}
-				state.rangeOffset = state.changes
-					? state.rangeOffset
-					: state.rangeOffset + state.rangeLength
-			}
+	const handlePlayPause = useCallback(() => {
+		const togglePlayback = () => {
+			if (!isControlled) togglePlay()
+			onPlayPause?.()
+		}
+		// Prima di riprendere chiedo cosa fare delle modifiche fatte in pausa
+		if (!isPlaying && sandboxFiles.length > 0) {
+			setPendingAction({ resume: togglePlayback, cancelable: true })
+			return
+		}
+		togglePlayback()
+	}, [isControlled, isPlaying, onPlayPause, sandboxFiles, togglePlay])
 
-			return {
-				rangeOffset: state.rangeOffset,
-				rangeLength: state.rangeLength,
-				rangeText: state.rangeText,
-				originalText,
-				targetText: text,
+	/**
+	 * Ends the sandbox session, restoring the recorded state, and runs the
+	 * action that was waiting for the viewer's choice.
+	 *
+	 * @param {boolean} exportEdits - Whether to hand the edits to `onSandboxExport` first.
+	 */
+	const resolveSandbox = useCallback(
+		(exportEdits: boolean) => {
+			if (workspace) {
+				if (exportEdits) onSandboxExport?.(workspace.getUserEdits())
+				workspace.restoreUserEdits()
 			}
+			setSandboxFiles([])
+			setPendingAction(null)
+			pendingAction?.resume()
 		},
-		[],
+		[onSandboxExport, pendingAction, workspace],
 	)
 
+	// Un host che riprende la riproduzione da solo non può essere fermato: chiedo
+	// comunque, ma senza la possibilità di continuare a modificare
+	useEffect(() => {
+		if (!isPlaying || sandboxFiles.length === 0) return
+		setPendingAction((prev) =>
+			prev && !prev.cancelable
+				? prev
+				: { resume: () => undefined, cancelable: false },
+		)
+	}, [isPlaying, sandboxFiles])
+
 	/**
-	 * Converts a 2D range of changes into Monaco editor change operations.
+	 * Describes a recorded file for the workspace.
 	 *
-	 * @param {Changes2DRange} changes - An object containing the details of the changes, including the range offset, range length, range text, original text, and target text.
-	 * @returns {MonacoEditorChangeOptions} - An object containing the Monaco editor change options, including the range and the replacement text.
+	 * @param file - The recorded file path.
 	 */
-	const convert2DChangesToMonacoOperations = useCallback(
-		({
-			rangeOffset = 0,
-			rangeLength = 0,
-			rangeText = "",
-			originalText = "",
-			targetText: targeText = "",
-		}: Changes2DRange): MonacoEditorChangeOptions => {
-			let start = rangeOffset
-			let end = rangeOffset + rangeLength
-			let startLineNumber = 0
-			let startColumn = 0
-			let endLineNumber = 0
-			let endColumn = 0
-			const eol = /\r\n|\n/
-			const lines = originalText.split(eol)
-			const eolMatch = eol.exec(originalText)
-			const eolLength = eolMatch ? eolMatch[0].length : 1
-
-			for (let i = 0; i < lines.length; i++) {
-				const lineLength = lines[i].length + eolLength
-				if (start >= lineLength) {
-					start -= lineLength
-					startLineNumber++
-				} else if (start || (start === 0 && i === 0)) {
-					startColumn = start + 1
-					startLineNumber++
-					start = 0
-				}
-
-				if (end >= lineLength) {
-					end -= lineLength
-					endLineNumber++
-				} else if (end || (end === 0 && i === 0)) {
-					endColumn = end + 1
-					endLineNumber++
-					break
-				}
-			}
-
-			const monacoRange: editor.IIdentifiedSingleEditOperation["range"] = {
-				startLineNumber,
-				startColumn,
-				endLineNumber,
-				endColumn,
+	const getFileDefinition = useCallback(
+		(file: string) => {
+			const definitions = languagesRef.current ?? []
+			const recordedLanguage =
+				engine.steps.find((step) => step.file === file && step.language)
+					?.language ?? ""
+			if (monacoState) registerLanguages(monacoState, definitions)
+			return {
+				file,
+				language: monacoState
+					? resolveLanguage(monacoState, file, recordedLanguage, definitions)
+					: "plaintext",
 			}
-			return { range: monacoRange, text: rangeText, targetText: targeText }
 		},
-		[],
+		[engine, monacoState],
 	)
 
-	const throttledUpdateFiles = useMemo(
-		() =>
-			throttle(
-				(sourceText: string, init = false) => {
-					const now = Date.now()
-					if (now - lastUpdateTime.current < 50 && !init) return
-					lastUpdateTime.current = now
-
-					const { file, text } = JSON.parse(sourceText) as StepText
-					const language = getLanguage(file)
-					const path = `codePlayer/${file}`
-
-					if (init) {
-						if (files.current[path]) return
-						if (!monacoState) return
-						const model = monacoState.editor.createModel(
-							text,
-							language,
-							monacoState.Uri.parse(path),
-						)
-						files.current[path] = {
-							model,
-							name: file,
-							language,
-							value: text,
-							isChanged: false,
-						}
-						if (currentFilePathRef.current === "") {
-							currentFilePathRef.current = path
-							setCurrentFile(path)
-						}
-						return
-					}
-
-					if (!editorState) return
-					const model = editorState.getModel()
-					if (!model) return
-
-					setToggleTabChange((prev) => !prev)
-					const pervFileText = model.getValue()
-					const fileChanged = currentFilePathRef.current !== path
-					currentFilePathRef.current = path
-					setCurrentFile(path)
-
-					files.current[path] = {
-						model,
-						name: file,
-						language,
-						value: text,
-						isChanged: true,
-					}
-
-					const diff = getTextDifference2DRanges(text, pervFileText)
-					if (!diff) return
-
-					const monacoOperation = convert2DChangesToMonacoOperations(diff)
-					handleEditorChange(monacoOperation, fileChanged)
-				},
-				50,
-				{ leading: true, trailing: true },
-			),
-		[
-			convert2DChangesToMonacoOperations,
-			editorState,
-			getLanguage,
-			getTextDifference2DRanges,
-			handleEditorChange,
+	useEffect(() => {
+		if (!monacoState) return
+		const nextWorkspace = createWorkspace(
 			monacoState,
-		],
-	)
+			engine.files.map(getFileDefinition),
+			{
+				onUserEdit: (file) => {
+					if (!sandboxEnabledRef.current) return
+					setSandboxFiles((prev) =>
+						prev.includes(file) ? prev : [...prev, file],
+					)
+				},
+			},
+		)
+		renderedFrame.current = null
+		setWorkspace(nextWorkspace)
+		setEditorFiles({ ...nextWorkspace.files })
+		setCurrentFile(engine.files[0] ?? "")
+		setViewedFile(engine.files[0] ?? "")
+		setAvailableFiles([])
+		setOpenTabs(engine.files.slice(0, 1))
+		setSandboxFiles([])
+		setPendingAction(null)
+		setAuthorFocus(null)
+		return () => nextWorkspace.dispose()
+	}, [engine, getFileDefinition, monacoState])
 
+	// Apro nelle schede ogni file mostrato, dalla registrazione o dall'explorer
 	useEffect(() => {
-		if (!editorState) return
-		for (const element of sourceCodeArray) {
-			throttledUpdateFiles(element.text, true)
-		}
-	}, [sourceCodeArray, throttledUpdateFiles, editorState])
+		if (!displayedFile) return
+		setOpenTabs((prev) =>
+			prev.includes(displayedFile) ? prev : [...prev, displayedFile],
+		)
+	}, [displayedFile])
 
+	// Porto in vista il punto su cui lavora l'autore, se lo sto seguendo
 	useEffect(() => {
-		const time = currentTime * 1000
-		const newFilteredArray = sourceCodeArray.filter((element) => {
-			return element.timeStart >= time
-		})
+		if (!editorState || !monacoState || !authorFocus || !followRecording) {
+			return
+		}
+		const model = editorState.getModel()
+		if (!model || model !== workspace?.getModel(authorFocus.file)) return
+		const scrollType = monacoState.editor.ScrollType.Smooth
+		if ("visibleRange" in authorFocus) {
+			const { startLine, endLine } = authorFocus.visibleRange
+			editorState.revealLinesInCenterIfOutsideViewport(
+				startLine,
+				endLine,
+				scrollType,
+			)
+		} else if (authorFocus.selections.length > 0) {
+			editorState.revealPositionInCenterIfOutsideViewport(
+				model.getPositionAt(authorFocus.selections[0].active),
+				scrollType,
+			)
+		}
+	}, [
+		authorFocus,
+		displayedFile,
+		editorState,
+		followRecording,
+		monacoState,
+		workspace,
+	])
 
-		const currentElement = sourceCodeArray.find(
-			(element) => element.timeStart <= time && element.timeEnd > time,
-		)
+	const tabFiles = useMemo(() => {
+		if (!showExplorer) return editorFiles
+		const tabs: CodeEditorFilesMap = {}
+		for (const file of openTabs) {
+			if (editorFiles[file]) tabs[file] = editorFiles[file]
+		}
+		return tabs
+	}, [editorFiles, openTabs, showExplorer])
 
-		if (currentElement) {
-			newFilteredArray.unshift(currentElement)
+	// Confronto il tema per valore, perché spesso viene passato come oggetto letterale
+	const themeKey = JSON.stringify(theme)
+	const stableTheme = useMemo(
+		() => JSON.parse(themeKey) as typeof theme,
+		[themeKey],
+	)
+	const preferredScheme = usePrefersColorScheme(
+		stableTheme === "auto" ||
+			(typeof stableTheme === "object" && isAdaptiveTheme(stableTheme)),
+	)
+	const resolvedTheme = useMemo(
+		() => resolveTheme(stableTheme, preferredScheme),
+		[stableTheme, preferredScheme],
+	)
+
+	const resolvedIconTheme = useMemo(
+		() => mergeIconThemes(iconTheme),
+		[iconTheme],
+	)
+	const getFileIcon = useCallback(
+		(file: string) =>
+			resolveFileIcon(resolvedIconTheme, file, editorFiles[file]?.language),
+		[editorFiles, resolvedIconTheme],
+	)
+
+	const onErrorRef = useRef(onError)
+	onErrorRef.current = onError
+
+	// Segnalo una sola volta gli errori e gli avvisi di ogni registrazione
+	useEffect(() => {
+		for (const warning of source.getWarnings()) {
+			console.warn(
+				`VSCodePlayer: step ${warning.sequence} (index ${warning.index}): ${warning.message}`,
+			)
 		}
+	}, [source])
+
+	useEffect(() => {
+		if (loadError) onErrorRef.current?.(loadError)
+	}, [loadError])
 
-		setFilteredArray(newFilteredArray)
-	}, [currentTime, sourceCodeArray])
+	const onStateChangeRef = useRef(onStateChange)
+	const onTimeUpdateRef = useRef(onTimeUpdate)
+	const reportedState = useRef(playerState)
+	const reportedTime = useRef(currentTime)
+	onStateChangeRef.current = onStateChange
+	onTimeUpdateRef.current = onTimeUpdate
+
+	useEffect(() => {
+		if (reportedState.current === playerState) return
+		reportedState.current = playerState
+		onStateChangeRef.current?.(playerState)
+	}, [playerState])
 
 	useEffect(() => {
-		currentTimeRef.current = currentTime
+		if (reportedTime.current === currentTime) return
+		reportedTime.current = currentTime
+		onTimeUpdateRef.current?.(currentTime)
 	}, [currentTime])
 
+	const captionCues = useMemo(
+		() =>
+			typeof captions === "string"
+				? parseCaptions(captions)
+				: [...(captions ?? [])].sort((a, b) => a.start - b.start),
+		[captions],
+	)
+	const [captionsVisible, setCaptionsVisible] = useState(true)
+	const activeCue = useMemo(
+		() => getActiveCue(captionCues, currentTime),
+		[captionCues, currentTime],
+	)
+	const handleCaptionsToggle = useCallback(
+		() => setCaptionsVisible((visible) => !visible),
+		[],
+	)
+
+	const onCueChangeRef = useRef(onCueChange)
+	const reportedCue = useRef<CaptionCue | null>(null)
+	onCueChangeRef.current = onCueChange
+
 	useEffect(() => {
-		if (
-			playerState !== PlayerState.PLAYING ||
-			prevVideoSpeed.current !== currentSpeed
-		) {
-			Array.from(timeouts.current.values()).forEach(clearTimeout)
-			timeouts.current.clear()
-		}
-	}, [currentSpeed, playerState])
+		if (reportedCue.current === activeCue) return
+		reportedCue.current = activeCue
+		onCueChangeRef.current?.(activeCue)
+	}, [activeCue])
+
+	const rootRef = useRef<HTMLDivElement>(null)
+	const {
+		isFullscreen,
+		isSupported: fullscreenSupported,
+		setFullscreen,
+		toggleFullscreen,
+	} = useFullscreen(rootRef)
+	const [layout, setLayout] = useState<PlayerLayout>(initialLayout)
+	const handleLayoutToggle = useCallback(
+		() =>
+			setLayout((current) => (current === "theater" ? "compact" : "theater")),
+		[],
+	)
+
+	const onLayoutChangeRef = useRef(onLayoutChange)
+	const onFullscreenChangeRef = useRef(onFullscreenChange)
+	const reportedLayout = useRef(layout)
+	const reportedFullscreen = useRef(isFullscreen)
+	onLayoutChangeRef.current = onLayoutChange
+	onFullscreenChangeRef.current = onFullscreenChange
 
 	useEffect(() => {
-		const time = currentTimeRef.current * 1000
-		if (filteredArray.length === 0) return
+		if (reportedLayout.current === layout) return
+		reportedLayout.current = layout
+		onLayoutChangeRef.current?.(layout)
+	}, [layout])
 
-		const currentTimeouts = timeouts.current
-		Array.from(currentTimeouts.values()).forEach(clearTimeout)
-		currentTimeouts.clear()
+	useEffect(() => {
+		if (reportedFullscreen.current === isFullscreen) return
+		reportedFullscreen.current = isFullscreen
+		onFullscreenChangeRef.current?.(isFullscreen)
+	}, [isFullscreen])
 
-		for (const [index, element] of Array.from(filteredArray.entries())) {
-			if (element === undefined) continue
-			if (index === 0) {
-				throttledUpdateFiles(element.text)
-			}
-			if (playerState === PlayerState.PLAYING) {
-				const timeoutId = setTimeout(
-					() => {
-						throttledUpdateFiles(element.text)
-					},
-					element.timeStart / currentSpeed - time,
-				)
-				currentTimeouts.set(index, timeoutId)
-			}
-		}
+	// Rendo lo stato esatto a ogni seek o aggiornamento del tempo da parte dell'host.
+	// Durante la riproduzione l'editor segue già ogni frame tramite onFrame
+	useEffect(() => {
+		if (!isRunning()) renderSnapshot(getTime())
+	}, [currentTime, getTime, isRunning, renderSnapshot])
 
-		return () => {
-			Array.from(currentTimeouts.values()).forEach(clearTimeout)
-			currentTimeouts.clear()
-		}
-	}, [filteredArray, playerState, currentSpeed, throttledUpdateFiles])
+	const engineFiles = engine.files
 
+	// Apro i file che compaiono negli step caricati dopo la creazione del workspace
 	useEffect(() => {
-		prevVideoSpeed.current = currentSpeed
-	}, [currentSpeed])
+		if (!workspace) return
+		const added = workspace.addFiles(
+			engineFiles
+				.filter((file) => !workspace.files[file])
+				.map(getFileDefinition),
+		)
+		if (added.length === 0) return
+		renderedFrame.current = null
+		renderSnapshot(getTime())
+	}, [engineFiles, getFileDefinition, getTime, renderSnapshot, workspace])
+
+	const sortedChapters = useMemo(
+		() => normalizeChapters(chapters ?? [], duration),
+		[chapters, duration],
+	)
+
+	// Segno la prima modifica di ogni file
+	const markers = useMemo(
+		() =>
+			showFileMarkers
+				? engineFiles.map((file) => ({
+						time: (engine.getFirstAppearance(file) ?? 0) / 1000,
+						title: file,
+						file,
+					}))
+				: [],
+		[engine, engineFiles, showFileMarkers],
+	)
+
+	// Il motore sostituisce l'array degli step quando ne arrivano di nuovi
+	const engineSteps = engine.steps
+	const engineDuration = engine.duration
+	const activity = useMemo(
+		() => computeActivity(engineSteps, engineDuration, ACTIVITY_BUCKETS),
+		[engineSteps, engineDuration],
+	)
+
+	// Anteprima del codice letta dal motore, senza toccare i modelli dell'editor
+	const getPreview = useMemo(() => {
+		const preview = createPreview(engine)
+		return (time: number) => preview(time * 1000)
+	}, [engine])
+
+	/**
+	 * Seeks to a chapter and shows the file it is about.
+	 *
+	 * @param {Chapter} chapter - The chapter selected by the viewer.
+	 */
+	const handleChapterSelect = useCallback(
+		(chapter: Chapter) => {
+			handleSeek(chapter.time)
+			if (!chapter.file || !engine.files.includes(chapter.file)) return
+			const liveStep = engine.steps[engine.getStepIndexAt(chapter.time * 1000)]
+			if (chapter.file === liveStep?.file) {
+				setFollowRecording(true)
+			} else if (tabChangeEnabled) {
+				setViewedFile(chapter.file)
+				setFollowRecording(false)
+			}
+		},
+		[engine, handleSeek, tabChangeEnabled],
+	)
 
 	const contextValue = useMemo(
 		() => ({
@@ -528,34 +750,178 @@ function VsCodePlayer({
 			duration,
 			playerState,
 			currentSpeed,
-			onSeek,
-			onSpeedChange,
-			onPlayPause,
+			options: resolvedOptions,
+			chapters: sortedChapters,
+			markers,
+			files: engineFiles,
+			activity,
+			getPreview,
+			captions: captionCues,
+			activeCue,
+			captionsVisible,
+			layout,
+			isFullscreen,
+			onSeek: handleSeek,
+			onSpeedChange: handleSpeedChange,
+			onPlayPause: handlePlayPause,
+			onChapterSelect: handleChapterSelect,
+			onCaptionsToggle: handleCaptionsToggle,
+			// Un player che riempie il contenitore non ha un layout da cambiare
+			onLayoutToggle: fill ? undefined : handleLayoutToggle,
+			onFullscreenToggle: fullscreenSupported ? toggleFullscreen : undefined,
 		}),
 		[
 			currentTime,
 			duration,
 			playerState,
 			currentSpeed,
-			onSeek,
-			onSpeedChange,
-			onPlayPause,
+			resolvedOptions,
+			sortedChapters,
+			markers,
+			engineFiles,
+			activity,
+			getPreview,
+			captionCues,
+			activeCue,
+			captionsVisible,
+			layout,
+			isFullscreen,
+			fill,
+			fullscreenSupported,
+			handleSeek,
+			handleSpeedChange,
+			handlePlayPause,
+			handleChapterSelect,
+			handleCaptionsToggle,
+			handleLayoutToggle,
+			toggleFullscreen,
 		],
 	)
 
+	const contextRef = useRef(contextValue)
+	contextRef.current = contextValue
+	const workspaceRef = useRef(workspace)
+	workspaceRef.current = workspace
+
+	useImperativeHandle(ref, () => {
+		// Mentre attende nuovi step il player conta come in riproduzione, come per il pulsante
+		const isPlaying = () =>
+			contextRef.current.playerState === PlayerState.PLAYING ||
+			contextRef.current.playerState === PlayerState.BUFFERING
+		return {
+			play: () => {
+				if (!isPlaying()) contextRef.current.onPlayPause()
+			},
+			pause: () => {
+				if (isPlaying()) contextRef.current.onPlayPause()
+			},
+			seek: (seconds: number) => contextRef.current.onSeek(seconds),
+			setSpeed: (speed: number) => contextRef.current.onSpeedChange(speed),
+			getCurrentTime: getTime,
+			getDuration: () => contextRef.current.duration,
+			getState: () => contextRef.current.playerState,
+			getFileContents: (path: string) =>
+				workspaceRef.current
+					?.getModel(path.replace(/^codePlayer\//, ""))
+					?.getValue(),
+			getActiveCue: () => contextRef.current.activeCue,
+			setCaptionsVisible,
+			setLayout,
+			setFullscreen,
+			getSandboxEdits: () => workspaceRef.current?.getUserEdits() ?? [],
+			discardSandboxEdits: () => {
+				workspaceRef.current?.restoreUserEdits()
+				setSandboxFiles([])
+			},
+		}
+	}, [getTime, setFullscreen])
+
+	// Le dimensioni passate come prop valgono solo nel layout compatto
+	const sized = !fill && !isFullscreen && layout === "compact"
+	const bodyStyle = sized ? { height } : undefined
+	const className = [
+		"vs-code-player",
+		`theme-${resolvedTheme.mode}`,
+		`layout-${layout}`,
+		fill && "fill",
+		isFullscreen && "fullscreen",
+	]
+		.filter(Boolean)
+		.join(" ")
+
+	const captionsElement = captionCues.length > 0 && captionsVisible && (
+		<div className={`player-captions ${captionsPosition}`} aria-live="polite">
+			{activeCue && <span className="caption-text">{activeCue.text}</span>}
+		</div>
+	)
+
 	return (
 		<PlayerContext.Provider value={contextValue}>
-			<div className="vs-code-player">
-				<CodeEditor
-					key="code-player"
-					currenFile={currentFile}
-					files={files.current}
-					externalEditor={editorState}
-					externalSetEditor={setEditorState}
-					externalMonaco={monacoState}
-					externalSetMonaco={setMonacoState}
-					toggleTabChange={toggleTabChange}
-				/>
+			<div
+				ref={rootRef}
+				className={className}
+				style={
+					{
+						width: sized ? width : undefined,
+						...resolvedTheme.variables,
+					} as React.CSSProperties
+				}
+			>
+				{loadError ? (
+					<div className="player-error" role="alert" style={bodyStyle}>
+						<p>Impossibile caricare la registrazione.</p>
+						<code>{loadError.message}</code>
+					</div>
+				) : (
+					<div className="player-body" style={bodyStyle}>
+						{showExplorer && (
+							<FileExplorer
+								files={engine.files}
+								availableFiles={availableFiles}
+								liveFile={currentFile}
+								openFile={displayedFile}
+								onOpenFile={tabChangeEnabled ? handleTabChange : undefined}
+								getFileIcon={getFileIcon}
+							/>
+						)}
+						<CodeEditor
+							key="code-player"
+							currenFile={displayedFile}
+							files={tabFiles}
+							externalEditor={editorState}
+							externalSetEditor={setEditorState}
+							externalMonaco={monacoState}
+							externalSetMonaco={setMonacoState}
+							toggleTabChange={toggleTabChange}
+							liveFile={currentFile}
+							followRecording={followRecording}
+							onFollowRecordingChange={
+								tabChangeEnabled ? handleFollowRecordingChange : undefined
+							}
+							onTabChange={handleTabChange}
+							readOnly={!editingEnabled || (sandboxEnabled && isPlaying)}
+							tabChangeEnabled={tabChangeEnabled}
+							height="100%"
+							theme={resolvedTheme.editorTheme}
+							themeData={resolvedTheme.editorThemeData}
+							getFileIcon={getFileIcon}
+						/>
+						{captionsPosition === "overlay" && captionsElement}
+					</div>
+				)}
+				{!loadError && captionsPosition === "below" && captionsElement}
+				{pendingAction && (
+					<SandboxPrompt
+						editedFiles={sandboxFiles}
+						onDiscard={() => resolveSandbox(false)}
+						onExport={onSandboxExport ? () => resolveSandbox(true) : undefined}
+						onCancel={
+							pendingAction.cancelable
+								? () => setPendingAction(null)
+								: undefined
+						}
+					/>
+				)}
 				{children}
 			</div>
 		</PlayerContext.Provider>
@@ -569,9 +935,21 @@ const ControlsWithContext = () => {
 		duration,
 		playerState,
 		currentSpeed,
+		options,
+		chapters,
+		markers,
 		onSeek,
 		onSpeedChange,
 		onPlayPause,
+		onChapterSelect,
+		getPreview,
+		captions,
+		captionsVisible,
+		onCaptionsToggle,
+		layout,
+		isFullscreen,
+		onLayoutToggle,
+		onFullscreenToggle,
 	} = usePlayer()
 
 	const handleSeek = useCallback(
@@ -592,6 +970,8 @@ const ControlsWithContext = () => {
 		onPlayPause?.()
 	}, [onPlayPause])
 
+	if (!options.controls.enabled) return null
+
 	return (
 		<Controls
 			currentTime={currentTime}
@@ -601,11 +981,64 @@ const ControlsWithContext = () => {
 			onSeek={handleSeek}
 			onSpeedChange={handleSpeedChange}
 			onPlayPause={handlePlayPause}
+			progressBarEnabled={options.controls.progressBarEnabled}
+			speedControlEnabled={options.controls.speedControlEnabled}
+			goForwardEnabled={options.controls.goForwardEnabled}
+			goBackwardEnabled={options.controls.goBackwardEnabled}
+			playPauseEnabled={options.controls.playPauseEnabled}
+			chapters={chapters}
+			markers={markers}
+			onChapterSelect={onChapterSelect}
+			getPreview={options.controls.previewEnabled ? getPreview : undefined}
+			captionsAvailable={captions.length > 0}
+			captionsVisible={captionsVisible}
+			onCaptionsToggle={onCaptionsToggle}
+			layout={layout}
+			onLayoutToggle={
+				options.controls.layoutToggleEnabled ? onLayoutToggle : undefined
+			}
+			isFullscreen={isFullscreen}
+			onFullscreenToggle={
+				options.controls.fullscreenEnabled ? onFullscreenToggle : undefined
+			}
+		/>
+	)
+}
+
+// Striscia dell'attività, da comporre accanto ai controlli
+const ActivityWithContext = () => {
+	const { currentTime, duration, files, activity, onSeek } = usePlayer()
+
+	const handleSeek = useCallback(
+		(time: number) => {
+			onSeek?.(time)
+		},
+		[onSeek],
+	)
+
+	return (
+		<ActivityStrip
+			activity={activity}
+			files={files}
+			currentTime={currentTime}
+			duration={duration}
+			onSeek={handleSeek}
 		/>
 	)
 }
 
+type VsCodePlayerComponent = React.ForwardRefExoticComponent<
+	Readonly<VSCodePlayerProps> & React.RefAttributes<VSCodePlayerHandle>
+> & {
+	Controls: typeof ControlsWithContext
+	Activity: typeof ActivityWithContext
+}
+
+const VsCodePlayer = forwardRef(VsCodePlayerBase) as VsCodePlayerComponent
+VsCodePlayer.displayName = "VsCodePlayer"
+
 // Aggiungo il componente Controls come proprietà statica
 VsCodePlayer.Controls = ControlsWithContext
+VsCodePlayer.Activity = ActivityWithContext
 
 export default VsCodePlayer
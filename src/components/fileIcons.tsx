@@ -0,0 +1,221 @@
+import React from "react"
+import {
+	SiC,
+	SiCplusplus,
+	SiCss3,
+	SiDart,
+	SiDocker,
+	SiDotenv,
+	SiElixir,
+	SiEslint,
+	SiGit,
+	SiGnubash,
+	SiGo,
+	SiGraphql,
+	SiHaskell,
+	SiHtml5,
+	SiJavascript,
+	SiJson,
+	SiKotlin,
+	SiLess,
+	SiLua,
+	SiMarkdown,
+	SiMdx,
+	SiMysql,
+	SiNpm,
+	SiOpenjdk,
+	SiPerl,
+	SiPhp,
+	SiPrettier,
+	SiPython,
+	SiR,
+	SiReact,
+	SiRuby,
+	SiRust,
+	SiSass,
+	SiScala,
+	SiSharp,
+	SiSvelte,
+	SiSvg,
+	SiSwift,
+	SiToml,
+	SiTypescript,
+	SiVite,
+	SiVuedotjs,
+	SiXml,
+	SiYaml,
+} from "react-icons/si"
+import { VscFile, VscFileMedia, VscGear } from "react-icons/vsc"
+import type { FileIconTheme } from "../types"
+
+const typescript = <SiTypescript color="#3178c6" />
+const javascript = <SiJavascript color="#f1dd35" />
+const react = <SiReact color="#61dafb" />
+const json = <SiJson color="#cbcb41" />
+const markdown = <SiMarkdown color="#519aba" />
+const shell = <SiGnubash color="#89e051" />
+const yaml = <SiYaml color="#cb171e" />
+const image = <VscFileMedia color="#a074c4" />
+const settings = <VscGear color="#6d8086" />
+const docker = <SiDocker color="#2496ed" />
+const git = <SiGit color="#f05032" />
+const cpp = <SiCplusplus color="#00599c" />
+
+/**
+ * The icons of the player, covering the most common file types.
+ */
+export const defaultIconTheme: FileIconTheme = {
+	fileNames: {
+		dockerfile: docker,
+		containerfile: docker,
+		"docker-compose.yml": docker,
+		"docker-compose.yaml": docker,
+		".dockerignore": docker,
+		".gitignore": git,
+		".gitattributes": git,
+		".gitmodules": git,
+		".env": <SiDotenv color="#ecd53f" />,
+		"package.json": <SiNpm color="#cb3837" />,
+		"package-lock.json": <SiNpm color="#cb3837" />,
+		".npmrc": <SiNpm color="#cb3837" />,
+		".eslintrc": <SiEslint color="#4b32c3" />,
+		".prettierrc": <SiPrettier color="#f7b93e" />,
+		"vite.config.ts": <SiVite color="#646cff" />,
+		"vite.config.js": <SiVite color="#646cff" />,
+		".editorconfig": settings,
+		makefile: settings,
+	},
+	extensions: {
+		"d.ts": typescript,
+		ts: typescript,
+		mts: typescript,
+		cts: typescript,
+		tsx: react,
+		jsx: react,
+		js: javascript,
+		mjs: javascript,
+		cjs: javascript,
+		html: <SiHtml5 color="#e34c26" />,
+		htm: <SiHtml5 color="#e34c26" />,
+		css: <SiCss3 color="#1572b6" />,
+		scss: <SiSass color="#cc6699" />,
+		sass: <SiSass color="#cc6699" />,
+		less: <SiLess color="#1d365d" />,
+		vue: <SiVuedotjs color="#41b883" />,
+		svelte: <SiSvelte color="#ff3e00" />,
+		json,
+		jsonc: json,
+		md: markdown,
+		markdown,
+		mdx: <SiMdx color="#f9ac00" />,
+		py: <SiPython color="#3776ab" />,
+		go: <SiGo color="#00add8" />,
+		rs: <SiRust color="#dea584" />,
+		java: <SiOpenjdk color="#e76f00" />,
+		kt: <SiKotlin color="#7f52ff" />,
+		scala: <SiScala color="#dc322f" />,
+		c: <SiC color="#a8b9cc" />,
+		h: <SiC color="#a8b9cc" />,
+		cpp: cpp,
+		cc: cpp,
+		hpp: cpp,
+		cs: <SiSharp color="#68217a" />,
+		php: <SiPhp color="#777bb4" />,
+		rb: <SiRuby color="#cc342d" />,
+		swift: <SiSwift color="#f05138" />,
+		dart: <SiDart color="#0175c2" />,
+		lua: <SiLua color="#51a0cf" />,
+		pl: <SiPerl color="#39457e" />,
+		r: <SiR color="#276dc3" />,
+		hs: <SiHaskell color="#5e5086" />,
+		ex: <SiElixir color="#6e4a7e" />,
+		exs: <SiElixir color="#6e4a7e" />,
+		sh: shell,
+		bash: shell,
+		zsh: shell,
+		sql: <SiMysql color="#4479a1" />,
+		graphql: <SiGraphql color="#e10098" />,
+		gql: <SiGraphql color="#e10098" />,
+		yml: yaml,
+		yaml,
+		toml: <SiToml color="#9c4221" />,
+		xml: <SiXml color="#e37933" />,
+		svg: <SiSvg color="#ffb13b" />,
+		png: image,
+		jpg: image,
+		jpeg: image,
+		gif: image,
+		webp: image,
+		ico: image,
+		ini: settings,
+		conf: settings,
+		env: <SiDotenv color="#ecd53f" />,
+	},
+	languages: {
+		typescript,
+		javascript,
+		json,
+		markdown,
+		shell,
+		yaml,
+		dockerfile: docker,
+	},
+	defaultIcon: <VscFile />,
+}
+
+/**
+ * Combines the icon theme of the host with the default one. Icons of the
+ * host win; with `inherit: false` the default theme is ignored.
+ *
+ * @param {FileIconTheme} theme - The icon theme of the host.
+ * @returns {FileIconTheme} - The theme used by the player.
+ */
+export function mergeIconThemes(theme?: FileIconTheme): FileIconTheme {
+	if (!theme) return defaultIconTheme
+	if (theme.inherit === false) return theme
+	return {
+		fileNames: { ...defaultIconTheme.fileNames, ...theme.fileNames },
+		extensions: { ...defaultIconTheme.extensions, ...theme.extensions },
+		languages: { ...defaultIconTheme.languages, ...theme.languages },
+		defaultIcon:
+			theme.defaultIcon === undefined
+				? defaultIconTheme.defaultIcon
+				: theme.defaultIcon,
+	}
+}
+
+/**
+ * Finds the icon of a file: by file name first, then by extension, trying
+ * compound extensions such as `d.ts` before the last one, then by the file
+ * name without its variant suffix (`Dockerfile.prod`, `.env.local`) and
+ * finally by language.
+ *
+ * @param {FileIconTheme} theme - The icon theme.
+ * @param {string} path - The file path.
+ * @param {string} language - The Monaco language of the file, if known.
+ * @returns {React.ReactNode} - The icon, or the default icon of the theme.
+ */
+export function resolveFileIcon(
+	theme: FileIconTheme,
+	path: string,
+	language?: string,
+): React.ReactNode {
+	const name = (path.split("/").pop() ?? path).toLowerCase()
+	const byName = theme.fileNames?.[name]
+	if (byName !== undefined) return byName
+
+	const parts = name.split(".")
+	// Il primo elemento è il nome, o la stringa vuota dei file nascosti
+	for (let i = 1; i < parts.length; i++) {
+		const icon = theme.extensions?.[parts.slice(i).join(".")]
+		if (icon !== undefined) return icon
+	}
+
+	const base = name.startsWith(".") ? `.${parts[1]}` : parts[0]
+	const byBase = base !== name ? theme.fileNames?.[base] : undefined
+	if (byBase !== undefined) return byBase
+
+	const byLanguage = language ? theme.languages?.[language] : undefined
+	if (byLanguage !== undefined) return byLanguage
+	return theme.defaultIcon ?? null
+}
@@ -0,0 +1,234 @@
+import type { Monaco } from "@monaco-editor/react"
+import type { LanguageDefinition } from "../types"
+
+/**
+ * Monaco languages of the most common file extensions.
+ */
+const EXTENSION_LANGUAGES: Record<string, string> = {
+	js: "javascript",
+	mjs: "javascript",
+	cjs: "javascript",
+	jsx: "javascript",
+	ts: "typescript",
+	mts: "typescript",
+	cts: "typescript",
+	tsx: "typescript",
+	html: "html",
+	htm: "html",
+	vue: "html",
+	svelte: "html",
+	css: "css",
+	scss: "scss",
+	sass: "scss",
+	less: "less",
+	json: "json",
+	jsonc: "json",
+	json5: "json",
+	map: "json",
+	md: "markdown",
+	markdown: "markdown",
+	mdx: "mdx",
+	py: "python",
+	pyw: "python",
+	go: "go",
+	rs: "rust",
+	java: "java",
+	kt: "kotlin",
+	kts: "kotlin",
+	scala: "scala",
+	c: "c",
+	h: "c",
+	cpp: "cpp",
+	cc: "cpp",
+	cxx: "cpp",
+	hpp: "cpp",
+	hh: "cpp",
+	cs: "csharp",
+	fs: "fsharp",
+	vb: "vb",
+	php: "php",
+	rb: "ruby",
+	swift: "swift",
+	m: "objective-c",
+	dart: "dart",
+	lua: "lua",
+	pl: "perl",
+	r: "r",
+	jl: "julia",
+	ex: "elixir",
+	exs: "elixir",
+	clj: "clojure",
+	coffee: "coffeescript",
+	sh: "shell",
+	bash: "shell",
+	zsh: "shell",
+	ps1: "powershell",
+	bat: "bat",
+	cmd: "bat",
+	sql: "sql",
+	graphql: "graphql",
+	gql: "graphql",
+	proto: "protobuf",
+	sol: "solidity",
+	yml: "yaml",
+	yaml: "yaml",
+	xml: "xml",
+	svg: "xml",
+	xsd: "xml",
+	ini: "ini",
+	cfg: "ini",
+	conf: "ini",
+	properties: "ini",
+	env: "ini",
+	tf: "hcl",
+	hcl: "hcl",
+	hbs: "handlebars",
+	handlebars: "handlebars",
+	pug: "pug",
+	twig: "twig",
+	liquid: "liquid",
+	dockerfile: "dockerfile",
+	txt: "plaintext",
+}
+
+/**
+ * Monaco languages of well-known file names, in lower case.
+ */
+const FILENAME_LANGUAGES: Record<string, string> = {
+	dockerfile: "dockerfile",
+	containerfile: "dockerfile",
+	".env": "ini",
+	".editorconfig": "ini",
+	".gitconfig": "ini",
+	".npmrc": "ini",
+	".bashrc": "shell",
+	".zshrc": "shell",
+	".profile": "shell",
+	".babelrc": "json",
+	".eslintrc": "json",
+	".prettierrc": "json",
+	gemfile: "ruby",
+	rakefile: "ruby",
+	podfile: "ruby",
+	jenkinsfile: "plaintext",
+	makefile: "plaintext",
+}
+
+/**
+ * VS Code language ids reported by the recorder that Monaco names differently.
+ */
+const RECORDER_LANGUAGES: Record<string, string> = {
+	javascriptreact: "javascript",
+	typescriptreact: "typescript",
+	jsonc: "json",
+	json5: "json",
+	shellscript: "shell",
+	dockercompose: "yaml",
+	"github-actions-workflow": "yaml",
+	coffeescript: "coffeescript",
+	sass: "scss",
+	vue: "html",
+	svelte: "html",
+	terraform: "hcl",
+	proto3: "protobuf",
+}
+
+/**
+ * Returns the Monaco language of a file name, trying the exact name first,
+ * then the name without its variant suffix (`Dockerfile.prod`, `.env.local`)
+ * and finally the extension.
+ */
+function matchFileName(
+	fileName: string,
+	filenames: Record<string, string>,
+	extensions: Record<string, string>,
+): string | undefined {
+	const name = fileName.toLowerCase()
+	if (filenames[name]) return filenames[name]
+	const base = name.startsWith(".")
+		? `.${name.slice(1).split(".")[0]}`
+		: name.split(".")[0]
+	if (base !== name && filenames[base]) return filenames[base]
+	const extension = name.lastIndexOf(".") > 0 ? name.split(".").pop() : ""
+	return extension ? extensions[extension] : undefined
+}
+
+/**
+ * Registers in Monaco the languages that define their own tokenizer and are
+ * not known yet. Monaco keeps languages for the whole page, so each one is
+ * registered only once.
+ *
+ * @param {Monaco} monaco - The Monaco instance.
+ * @param {LanguageDefinition[]} definitions - The languages added by the host.
+ */
+export function registerLanguages(
+	monaco: Monaco,
+	definitions: readonly LanguageDefinition[],
+) {
+	const known = monaco.languages.getLanguages().map(({ id }) => id)
+	for (const definition of definitions) {
+		if (!definition.tokenizer || known.includes(definition.id)) continue
+		monaco.languages.register({
+			id: definition.id,
+			extensions: definition.extensions?.map(
+				(extension) => `.${extension.replace(/^\./, "")}`,
+			),
+			filenames: definition.filenames,
+		})
+		monaco.languages.setMonarchTokensProvider(
+			definition.id,
+			definition.tokenizer,
+		)
+		if (definition.configuration) {
+			monaco.languages.setLanguageConfiguration(
+				definition.id,
+				definition.configuration,
+			)
+		}
+		known.push(definition.id)
+	}
+}
+
+/**
+ * Determines the Monaco language of a recorded file.
+ *
+ * The language reported by the recorder wins when Monaco knows it. Otherwise
+ * the file name is matched against the host's definitions and then against
+ * the built-in extension and file name maps. Unknown files are plain text.
+ *
+ * @param {Monaco} monaco - The Monaco instance.
+ * @param {string} file - The recorded file path.
+ * @param {string} recordedLanguage - The language reported by the recorder, possibly empty.
+ * @param {LanguageDefinition[]} definitions - The languages added by the host.
+ * @returns {string} - A Monaco language id.
+ */
+export function resolveLanguage(
+	monaco: Monaco,
+	file: string,
+	recordedLanguage: string,
+	definitions: readonly LanguageDefinition[] = [],
+): string {
+	const known = monaco.languages.getLanguages().map(({ id }) => id)
+	const recorded = recordedLanguage.trim().toLowerCase()
+	const alias = RECORDER_LANGUAGES[recorded] ?? recorded
+	// VS Code reports plain text for every file it does not recognize
+	if (alias && alias !== "plaintext" && known.includes(alias)) return alias
+
+	const customFilenames: Record<string, string> = {}
+	const customExtensions: Record<string, string> = {}
+	for (const definition of definitions) {
+		for (const name of definition.filenames ?? []) {
+			customFilenames[name.toLowerCase()] = definition.id
+		}
+		for (const extension of definition.extensions ?? []) {
+			customExtensions[extension.replace(/^\./, "").toLowerCase()] =
+				definition.id
+		}
+	}
+
+	const fileName = file.split("/").pop() ?? file
+	const language =
+		matchFileName(fileName, customFilenames, customExtensions) ??
+		matchFileName(fileName, FILENAME_LANGUAGES, EXTENSION_LANGUAGES)
+	return language && known.includes(language) ? language : "plaintext"
+}
@@ -0,0 +1,93 @@
+import type { editor } from "monaco-editor"
+import type {
+	AdaptivePlayerTheme,
+	PlayerColors,
+	PlayerTheme,
+} from "../types"
+
+/**
+ * The theme applied to a player.
+ * @property {"dark" | "light"} mode - The preset of the chrome.
+ * @property {string} editorTheme - The name of the Monaco theme.
+ * @property {editor.IStandaloneThemeData | undefined} editorThemeData - The definition to register under `editorTheme`, if any.
+ * @property {Record<string, string>} variables - The CSS custom properties overriding the preset.
+ */
+export interface ResolvedTheme {
+	mode: "dark" | "light"
+	editorTheme: string
+	editorThemeData?: editor.IStandaloneThemeData
+	variables: Record<string, string>
+}
+
+/**
+ * Monaco themes of the presets.
+ */
+const PRESET_EDITOR_THEMES = {
+	dark: "vs-dark",
+	light: "vs",
+} as const
+
+/**
+ * Built-in Monaco themes with a light background.
+ */
+const LIGHT_EDITOR_THEMES = ["vs", "hc-light"]
+
+/**
+ * Returns whether a theme is a pair of themes for light and dark mode.
+ *
+ * @param theme - The theme passed to the player.
+ */
+export function isAdaptiveTheme(
+	theme: string | PlayerTheme | AdaptivePlayerTheme,
+): theme is AdaptivePlayerTheme {
+	return typeof theme === "object" && "light" in theme && "dark" in theme
+}
+
+/**
+ * Converts the colors of a theme to CSS custom properties, such as
+ * `--vcp-inactive-tab` for `inactiveTab`.
+ */
+function toVariables(colors: PlayerColors = {}): Record<string, string> {
+	const variables: Record<string, string> = {}
+	for (const [name, value] of Object.entries(colors)) {
+		if (!value) continue
+		variables[`--vcp-${name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`] =
+			value
+	}
+	return variables
+}
+
+/**
+ * Resolves the theme passed to the player.
+ *
+ * @param theme - The theme passed to the player.
+ * @param {"dark" | "light"} preferredScheme - The color scheme preferred by the viewer, used by `"auto"` and adaptive themes.
+ * @returns {ResolvedTheme} - The theme to apply.
+ */
+export function resolveTheme(
+	theme: string | PlayerTheme | AdaptivePlayerTheme,
+	preferredScheme: "dark" | "light",
+): ResolvedTheme {
+	if (typeof theme === "string") {
+		if (theme === "auto" || theme === "dark" || theme === "light") {
+			const mode = theme === "auto" ? preferredScheme : theme
+			return { mode, editorTheme: PRESET_EDITOR_THEMES[mode], variables: {} }
+		}
+		// A Monaco theme name, as accepted by earlier versions
+		const mode = LIGHT_EDITOR_THEMES.includes(theme) ? "light" : "dark"
+		return { mode, editorTheme: theme, variables: {} }
+	}
+
+	const playerTheme = isAdaptiveTheme(theme) ? theme[preferredScheme] : theme
+	const mode =
+		playerTheme.base ?? (isAdaptiveTheme(theme) ? preferredScheme : "dark")
+	const { editor: editorTheme = PRESET_EDITOR_THEMES[mode] } = playerTheme
+	return {
+		mode,
+		editorTheme:
+			typeof editorTheme === "string" ? editorTheme : editorTheme.name,
+		editorThemeData:
+			typeof editorTheme === "string" ? undefined : editorTheme.definition,
+		variables: toVariables(playerTheme.colors),
+	}
+}
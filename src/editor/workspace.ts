@@ -0,0 +1,315 @@
+import type { Monaco } from "@monaco-editor/react"
+import type { editor } from "monaco-editor"
+import type { CodeEditorFilesMap } from "../components/CodeEditor"
+import type {
+	AuthorCursor,
+	RecordedStep,
+	RecordingSnapshot,
+} from "../engine/snapshot"
+import { getTextDifference2DRanges } from "../engine/textDiff"
+import { createSandboxEdit, type SandboxEdit } from "../engine/sandbox"
+
+/**
+ * Describes a recorded file to be opened in the workspace.
+ * @property {string} file - The recorded file path.
+ * @property {string} language - The Monaco language of the file.
+ */
+export interface WorkspaceFileDefinition {
+	file: string
+	language: string
+}
+
+/**
+ * Options of a workspace.
+ * @property {(file: string) => void} onUserEdit - Called when the viewer edits a file.
+ */
+interface WorkspaceOptions {
+	onUserEdit?: (file: string) => void
+}
+
+/**
+ * Options of a workspace synchronization.
+ * @property {boolean} preserveUserEdits - Whether files edited by the viewer keep their edits.
+ * @property {RecordedStep[]} steps - The steps applied since the previous synchronization, if known.
+ *   Delta steps among them are applied as Monaco edits instead of diffing the whole file.
+ */
+interface SyncOptions {
+	preserveUserEdits?: boolean
+	steps?: readonly RecordedStep[]
+}
+
+/**
+ * A set of Monaco models, one per recorded file, kept in sync with the recording.
+ */
+export interface Workspace {
+	/** The files of the workspace keyed by recorded path. */
+	readonly files: CodeEditorFilesMap
+	/** Returns the model of a recorded file. */
+	getModel: (file: string) => editor.ITextModel | undefined
+	/** Opens files recorded after the workspace was created. Returns the files added. */
+	addFiles: (definitions: readonly WorkspaceFileDefinition[]) => string[]
+	/**
+	 * Brings every model to the state of `snapshot`, visible or not.
+	 * Returns the files whose contents changed.
+	 */
+	sync: (snapshot: RecordingSnapshot, options?: SyncOptions) => string[]
+	/** Shows the author's cursor and selections in its file, or hides them. */
+	setAuthorCursor: (cursor: AuthorCursor | null) => void
+	/** Returns whether the viewer edited any file since the last restore. */
+	hasUserEdits: () => boolean
+	/** Returns the viewer's edits against the recorded state of each file. */
+	getUserEdits: () => SandboxEdit[]
+	/** Discards the viewer's edits and restores the recorded state. */
+	restoreUserEdits: () => void
+	/** Disposes every model of the workspace. */
+	dispose: () => void
+}
+
+/**
+ * Replaces the contents of a model with `text` through a minimal edit, so the
+ * undo stack, decorations and markers of the model are preserved.
+ *
+ * @param {editor.ITextModel} model - The model to update.
+ * @param {string} text - The new contents of the model.
+ * @returns {boolean} - Whether the model changed.
+ */
+export function applyText(model: editor.ITextModel, text: string): boolean {
+	const diff = getTextDifference2DRanges(text, model.getValue())
+	if (!diff) return false
+
+	const start = model.getPositionAt(diff.rangeOffset)
+	const end = model.getPositionAt(diff.rangeOffset + diff.rangeLength)
+	model.pushEditOperations(
+		[],
+		[
+			{
+				range: {
+					startLineNumber: start.lineNumber,
+					startColumn: start.column,
+					endLineNumber: end.lineNumber,
+					endColumn: end.column,
+				},
+				text: diff.rangeText,
+				forceMoveMarkers: false,
+			},
+		],
+		() => null,
+	)
+
+	// ensure value is set
+	if (model.getValue() !== text) {
+		model.pushEditOperations(
+			[],
+			[{ range: model.getFullModelRange(), text }],
+			() => null,
+		)
+	}
+	return true
+}
+
+/**
+ * Applies delta steps to a model as Monaco edits, one edit per step.
+ *
+ * @param {editor.ITextModel} model - The model to update.
+ * @param {RecordedStep[]} steps - The delta steps, in order.
+ */
+function applyDeltaSteps(
+	model: editor.ITextModel,
+	steps: readonly RecordedStep[],
+) {
+	for (const step of steps) {
+		if (!step.edit) continue
+		const { rangeOffset, rangeLength } = step.edit
+		const start = model.getPositionAt(rangeOffset)
+		const end = model.getPositionAt(rangeOffset + rangeLength)
+		model.pushEditOperations(
+			[],
+			[
+				{
+					range: {
+						startLineNumber: start.lineNumber,
+						startColumn: start.column,
+						endLineNumber: end.lineNumber,
+						endColumn: end.column,
+					},
+					text: step.text,
+					forceMoveMarkers: false,
+				},
+			],
+			() => null,
+		)
+	}
+}
+
+/**
+ * Creates a workspace holding one persistent Monaco model per recorded file.
+ *
+ * @param {Monaco} monaco - The Monaco instance used to create the models.
+ * @param {WorkspaceFileDefinition[]} definitions - The recorded files.
+ * @param {WorkspaceOptions} options - The workspace options.
+ * @returns {Workspace} - The workspace.
+ */
+export function createWorkspace(
+	monaco: Monaco,
+	definitions: readonly WorkspaceFileDefinition[],
+	{ onUserEdit }: WorkspaceOptions = {},
+): Workspace {
+	const files: CodeEditorFilesMap = {}
+	const syncedTexts: Record<string, string> = {}
+	const editedFiles: Record<string, boolean> = {}
+	const listeners: { dispose: () => void }[] = []
+	let applying = false
+	let cursorDecorations: { file: string; ids: string[] } | null = null
+
+	/**
+	 * Applies recorded contents to a model without marking it as edited by the viewer.
+	 */
+	const applyRecordedText = (
+		file: string,
+		text: string,
+		steps: readonly RecordedStep[] = [],
+	) => {
+		const { model } = files[file]
+		applying = true
+		try {
+			if (steps.length > 0 && steps.every((step) => step.edit)) {
+				applyDeltaSteps(model, steps)
+				// A length mismatch means the steps did not start from the model contents
+				if (model.getValueLength() === text.length) return
+			}
+			applyText(model, text)
+		} finally {
+			applying = false
+		}
+	}
+
+	// A file stays empty until it appears in the recording
+	const addFile = ({ file, language }: WorkspaceFileDefinition) => {
+		const uri = monaco.Uri.parse(`codePlayer/${file}`)
+		const existing = monaco.editor.getModel(uri)
+		const model = existing ?? monaco.editor.createModel("", language, uri)
+		files[file] = {
+			model,
+			name: file,
+			language,
+			value: "",
+			isChanged: false,
+		}
+		if (existing) {
+			monaco.editor.setModelLanguage(model, language)
+			applyRecordedText(file, "")
+		}
+		syncedTexts[file] = ""
+		listeners.push(
+			model.onDidChangeContent(() => {
+				if (applying) return
+				editedFiles[file] = true
+				onUserEdit?.(file)
+			}),
+		)
+	}
+	definitions.forEach(addFile)
+
+	const getEditedFiles = () =>
+		Object.keys(editedFiles).filter((file) => editedFiles[file])
+
+	return {
+		files,
+		getModel: (file) => files[file]?.model,
+		addFiles: (newDefinitions) => {
+			const added = newDefinitions.filter(({ file }) => !files[file])
+			added.forEach(addFile)
+			return added.map(({ file }) => file)
+		},
+		sync: (snapshot, { preserveUserEdits = false, steps = [] } = {}) => {
+			const changed: string[] = []
+			for (const file of Object.keys(files)) {
+				const text = snapshot.files[file] ?? ""
+				if (syncedTexts[file] === text) continue
+				syncedTexts[file] = text
+				files[file].value = text
+				if (editedFiles[file] && preserveUserEdits) continue
+				// The deltas only apply to the recorded contents, not to the viewer's edits
+				const fileSteps = editedFiles[file]
+					? []
+					: steps.filter(
+							(step) => step.file === file && step.type === "content",
+						)
+				editedFiles[file] = false
+				applyRecordedText(file, text, fileSteps)
+				changed.push(file)
+			}
+			return changed
+		},
+		setAuthorCursor: (cursor) => {
+			if (cursorDecorations) {
+				const model = files[cursorDecorations.file]?.model
+				if (model && !model.isDisposed()) {
+					model.deltaDecorations(cursorDecorations.ids, [])
+				}
+				cursorDecorations = null
+			}
+			if (!cursor || !files[cursor.file]) return
+
+			const { model } = files[cursor.file]
+			const stickiness =
+				monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+			const decorations: editor.IModelDeltaDecoration[] = []
+			for (const { anchor, active } of cursor.selections) {
+				const start = model.getPositionAt(Math.min(anchor, active))
+				const end = model.getPositionAt(Math.max(anchor, active))
+				const head = model.getPositionAt(active)
+				if (anchor !== active) {
+					decorations.push({
+						range: {
+							startLineNumber: start.lineNumber,
+							startColumn: start.column,
+							endLineNumber: end.lineNumber,
+							endColumn: end.column,
+						},
+						options: { className: "author-selection", stickiness },
+					})
+				}
+				decorations.push({
+					range: {
+						startLineNumber: head.lineNumber,
+						startColumn: head.column,
+						endLineNumber: head.lineNumber,
+						endColumn: head.column,
+					},
+					options: {
+						beforeContentClassName: "author-cursor",
+						stickiness,
+					},
+				})
+			}
+			cursorDecorations = {
+				file: cursor.file,
+				ids: model.deltaDecorations([], decorations),
+			}
+		},
+		hasUserEdits: () => getEditedFiles().length > 0,
+		getUserEdits: () =>
+			getEditedFiles()
+				.map((file) =>
+					createSandboxEdit(
+						file,
+						syncedTexts[file],
+						files[file].model.getValue(),
+					),
+				)
+				.filter((edit) => edit.recordedText !== edit.editedText),
+		restoreUserEdits: () => {
+			for (const file of getEditedFiles()) {
+				editedFiles[file] = false
+				applyRecordedText(file, syncedTexts[file])
+			}
+		},
+		dispose: () => {
+			for (const listener of listeners) listener.dispose()
+			for (const file of Object.keys(files)) {
+				files[file].model.dispose()
+			}
+		},
+	}
+}
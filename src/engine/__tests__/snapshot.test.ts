@@ -0,0 +1,119 @@
+import { applyStep, createSnapshotEngine, type RecordedStep } from "../snapshot"
+
+/**
+ * Deterministic random numbers, so that a failure can be replayed.
+ */
+function createRandom(seed: number) {
+	let state = seed
+	return () => {
+		state = (state * 1103515245 + 12345) % 2147483648
+		return state / 2147483648
+	}
+}
+
+/**
+ * Generates a recording of keyframes and deltas over a few files, with some
+ * steps sharing the same time.
+ */
+function generateSteps(count: number, seed: number): RecordedStep[] {
+	const random = createRandom(seed)
+	const files = ["index.html", "src/app.ts", "src/style.css"]
+	const texts: Record<string, string> = {}
+	const steps: RecordedStep[] = []
+	let time = 0
+	for (let index = 0; index < count; index++) {
+		time += Math.floor(random() * 3) * 10
+		const file = files[Math.floor(random() * files.length)]
+		const current = texts[file]
+		const base = {
+			index,
+			sequence: index + 1,
+			timeStart: time,
+			timeEnd: time + 5,
+			file,
+			language: "",
+			type: "content" as const,
+		}
+		const word = random()
+			.toString(36)
+			.slice(2, 2 + Math.floor(random() * 6))
+		if (current === undefined || random() < 0.01) {
+			steps.push({ ...base, text: `${word}\n${current ?? ""}` })
+		} else {
+			const rangeOffset = Math.floor(random() * (current.length + 1))
+			const rangeLength = Math.floor(
+				random() * Math.min(4, current.length - rangeOffset + 1),
+			)
+			steps.push({ ...base, text: word, edit: { rangeOffset, rangeLength } })
+		}
+		texts[file] = applyStep(current ?? "", steps[index])
+	}
+	return steps
+}
+
+/**
+ * Replays every step up to `time` from scratch.
+ */
+function replay(steps: readonly RecordedStep[], time: number) {
+	const files: Record<string, string> = {}
+	for (const step of steps) {
+		if (step.timeStart > time) break
+		files[step.file] = applyStep(files[step.file] ?? "", step)
+	}
+	return files
+}
+
+describe("createSnapshotEngine", () => {
+	const steps = generateSteps(600, 42)
+	const duration = steps[steps.length - 1].timeEnd
+
+	it("matches a naive replay at every step boundary", () => {
+		const engine = createSnapshotEngine(steps)
+		for (const step of steps) {
+			expect(engine.getSnapshotAt(step.timeStart).files).toEqual(
+				replay(steps, step.timeStart),
+			)
+		}
+	})
+
+	it("matches a naive replay when seeking in random order", () => {
+		const engine = createSnapshotEngine(steps)
+		const random = createRandom(7)
+		for (let i = 0; i < 300; i++) {
+			const time = Math.floor(random() * (duration + 20)) - 10
+			expect(engine.getSnapshotAt(time).files).toEqual(replay(steps, time))
+		}
+	})
+
+	it("reports the last applied step and its file", () => {
+		const engine = createSnapshotEngine(steps)
+		expect(engine.getSnapshotAt(-1)).toMatchObject({
+			stepIndex: -1,
+			activeFile: null,
+			files: {},
+		})
+		const last = engine.getSnapshotAt(duration)
+		expect(last.stepIndex).toBe(steps.length - 1)
+		expect(last.activeFile).toBe(steps[steps.length - 1].file)
+	})
+
+	it("gives the same snapshots when the steps are appended in chunks", () => {
+		const engine = createSnapshotEngine(steps.slice(0, 100))
+		for (let start = 100; start < steps.length; start += 75) {
+			engine.append(steps.slice(start, start + 75))
+		}
+		expect(engine.duration).toBe(duration)
+		for (let time = 0; time <= duration; time += 37) {
+			expect(engine.getSnapshotAt(time).files).toEqual(replay(steps, time))
+		}
+	})
+
+	it("returns the first appearance of each file", () => {
+		const engine = createSnapshotEngine(steps)
+		for (const file of engine.files) {
+			const first = steps.find((step) => step.file === file)
+			expect(engine.getFirstAppearance(file)).toBe(first?.timeStart)
+		}
+		expect(engine.getFirstAppearance("missing.ts")).toBeUndefined()
+	})
+})
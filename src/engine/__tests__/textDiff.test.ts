@@ -0,0 +1,51 @@
+import { getTextDifference2DRanges } from "../textDiff"
+
+/**
+ * Applies the edit returned by `getTextDifference2DRanges` to `originalText`.
+ */
+function applyDifference(originalText: string, text: string) {
+	const diff = getTextDifference2DRanges(text, originalText)
+	if (!diff) return originalText
+	return (
+		originalText.slice(0, diff.rangeOffset) +
+		diff.rangeText +
+		originalText.slice(diff.rangeOffset + diff.rangeLength)
+	)
+}
+
+describe("getTextDifference2DRanges", () => {
+	it("returns null when the texts are equal", () => {
+		expect(getTextDifference2DRanges("abc", "abc")).toBeNull()
+	})
+
+	it("replaces only the range between the common prefix and suffix", () => {
+		expect(
+			getTextDifference2DRanges("const b = 2\n", "const a = 1\n"),
+		).toMatchObject({ rangeOffset: 6, rangeLength: 5, rangeText: "b = 2" })
+		expect(getTextDifference2DRanges("aXa", "aa")).toMatchObject({
+			rangeOffset: 1,
+			rangeLength: 0,
+			rangeText: "X",
+		})
+		expect(getTextDifference2DRanges("aa", "aaa")).toMatchObject({
+			rangeOffset: 2,
+			rangeLength: 1,
+			rangeText: "",
+		})
+	})
+
+	it("rebuilds the target text", () => {
+		const pairs: [string, string][] = [
+			["", "hello"],
+			["hello", ""],
+			["function a() {}\n", "function b() {\n\treturn 1\n}\n"],
+			["one\ntwo\nthree", "one\nthree"],
+			["abcabc", "abc"],
+			["x\r\ny", "x\ny"],
+		]
+		for (const [originalText, text] of pairs) {
+			expect(applyDifference(originalText, text)).toBe(text)
+			expect(applyDifference(text, originalText)).toBe(originalText)
+		}
+	})
+})
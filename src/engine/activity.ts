@@ -0,0 +1,84 @@
+import type { RecordedStep } from "./snapshot"
+
+/**
+ * A time range during which the author worked on one file.
+ * @property {string} file - The active file.
+ * @property {number} start - Start of the range in milliseconds.
+ * @property {number} end - End of the range in milliseconds.
+ */
+export interface ActivitySegment {
+	file: string
+	start: number
+	end: number
+}
+
+/**
+ * Where the action is in a recording.
+ * @property {number[]} density - Edit density of each time bucket, from 0 to 1.
+ * @property {ActivitySegment[]} segments - The active file over time, in order.
+ */
+export interface RecordingActivity {
+	density: number[]
+	segments: ActivitySegment[]
+}
+
+/**
+ * Returns how many characters a step changes. Keyframes only carry the
+ * final text, so their size is the change in length of the file.
+ */
+function getChangeSize(step: RecordedStep, previousLength: number) {
+	if (step.type !== "content") return 0
+	if (step.edit) return Math.max(step.edit.rangeLength, step.text.length)
+	return Math.abs(step.text.length - previousLength)
+}
+
+/**
+ * Computes the edit density and the active file of a recording over time.
+ *
+ * The density of a bucket is the number of characters changed in it, on a
+ * logarithmic scale so that a single large paste does not flatten the rest
+ * of the recording.
+ *
+ * @param {RecordedStep[]} steps - The steps ordered by time.
+ * @param {number} duration - The duration of the recording in milliseconds.
+ * @param {number} bucketCount - The number of time buckets of the density.
+ * @returns {RecordingActivity} - The activity of the recording.
+ */
+export function computeActivity(
+	steps: readonly RecordedStep[],
+	duration: number,
+	bucketCount: number,
+): RecordingActivity {
+	const sizes: number[] = []
+	for (let i = 0; i < bucketCount; i++) sizes.push(0)
+	const lengths: Record<string, number> = {}
+	const segments: ActivitySegment[] = []
+
+	for (const step of steps) {
+		const previousLength = lengths[step.file] ?? 0
+		const size = getChangeSize(step, previousLength)
+		if (step.type === "content") {
+			lengths[step.file] = step.edit
+				? previousLength - step.edit.rangeLength + step.text.length
+				: step.text.length
+		}
+		if (duration > 0 && bucketCount > 0) {
+			const bucket = Math.min(
+				Math.floor((step.timeStart / duration) * bucketCount),
+				bucketCount - 1,
+			)
+			sizes[bucket] += size
+		}
+
+		const last = segments[segments.length - 1]
+		if (last?.file === step.file) continue
+		if (last) last.end = step.timeStart
+		segments.push({ file: step.file, start: step.timeStart, end: duration })
+	}
+
+	const max = Math.log1p(Math.max(0, ...sizes))
+	return {
+		density: sizes.map((size) => (max > 0 ? Math.log1p(size) / max : 0)),
+		segments: segments.filter((segment) => segment.end > segment.start),
+	}
+}
@@ -0,0 +1,29 @@
+import type { CaptionCue } from "../types"
+
+/**
+ * Returns the cue shown at `time`. When cues overlap, the one that started
+ * last is shown.
+ *
+ * @param {CaptionCue[]} cues - The cues ordered by start time.
+ * @param {number} time - The time in seconds.
+ * @returns {CaptionCue | null} - The active cue, or `null` if none is active.
+ */
+export function getActiveCue(
+	cues: readonly CaptionCue[],
+	time: number,
+): CaptionCue | null {
+	let low = 0
+	let high = cues.length
+	while (low < high) {
+		const middle = (low + high) >>> 1
+		if (cues[middle].start <= time) {
+			low = middle + 1
+		} else {
+			high = middle
+		}
+	}
+	for (let i = low - 1; i >= 0; i--) {
+		if (cues[i].end > time) return cues[i]
+	}
+	return null
+}
@@ -0,0 +1,73 @@
+import type { Chapter } from "../types"
+
+/**
+ * Seconds after the start of a chapter during which "previous chapter" goes
+ * to the chapter before instead of restarting the current one.
+ */
+const RESTART_THRESHOLD = 2
+
+/**
+ * Orders chapters by time and drops the ones outside the recording.
+ *
+ * @param {Chapter[]} chapters - The chapters as passed to the player.
+ * @param {number} duration - The duration of the recording in seconds.
+ * @returns {Chapter[]} - The chapters ordered by time.
+ */
+export function normalizeChapters(
+	chapters: readonly Chapter[],
+	duration: number,
+): Chapter[] {
+	return chapters
+		.filter((chapter) => chapter.time >= 0 && chapter.time <= duration)
+		.sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Returns the index of the chapter playing at `time`, or -1 before the first one.
+ *
+ * @param {Chapter[]} chapters - The chapters ordered by time.
+ * @param {number} time - The time in seconds.
+ * @returns {number} - The index of the chapter.
+ */
+export function getChapterIndexAt(
+	chapters: readonly Chapter[],
+	time: number,
+): number {
+	let index = -1
+	while (index + 1 < chapters.length && chapters[index + 1].time <= time) {
+		index++
+	}
+	return index
+}
+
+/**
+ * Returns the chapter following the one playing at `time`, if any.
+ *
+ * @param {Chapter[]} chapters - The chapters ordered by time.
+ * @param {number} time - The time in seconds.
+ * @returns {Chapter | undefined} - The next chapter.
+ */
+export function getNextChapter(
+	chapters: readonly Chapter[],
+	time: number,
+): Chapter | undefined {
+	return chapters[getChapterIndexAt(chapters, time) + 1]
+}
+
+/**
+ * Returns the chapter to go back to from `time`: the start of the current
+ * chapter, or the previous chapter right after a chapter starts.
+ *
+ * @param {Chapter[]} chapters - The chapters ordered by time.
+ * @param {number} time - The time in seconds.
+ * @returns {Chapter | undefined} - The chapter to go back to.
+ */
+export function getPreviousChapter(
+	chapters: readonly Chapter[],
+	time: number,
+): Chapter | undefined {
+	const index = getChapterIndexAt(chapters, time)
+	if (index === -1) return undefined
+	if (time - chapters[index].time > RESTART_THRESHOLD) return chapters[index]
+	return chapters[Math.max(index - 1, 0)]
+}
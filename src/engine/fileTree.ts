@@ -0,0 +1,70 @@
+/**
+ * A node of the folder tree built from the recorded paths.
+ * @property {string} name - The last segment of the path.
+ * @property {string} path - The full path of the node, relative to the recording root.
+ * @property {"folder" | "file"} type - Whether the node is a folder or a file.
+ * @property {FileTreeNode[]} children - The children of a folder, folders first.
+ */
+export interface FileTreeNode {
+	name: string
+	path: string
+	type: "folder" | "file"
+	children: FileTreeNode[]
+}
+
+/**
+ * Sorts the nodes like the VS Code explorer does: folders first, then files,
+ * each group in alphabetical order.
+ *
+ * @param {FileTreeNode[]} nodes - The nodes to sort in place, recursively.
+ */
+function sortNodes(nodes: FileTreeNode[]) {
+	nodes.sort((a, b) => {
+		if (a.type !== b.type) return a.type === "folder" ? -1 : 1
+		return a.name.localeCompare(b.name)
+	})
+	for (const node of nodes) {
+		if (node.type === "folder") sortNodes(node.children)
+	}
+}
+
+/**
+ * Builds a folder tree from a list of relative file paths such as
+ * `src/app/main.ts`. Both `/` and `\` are accepted as separators.
+ *
+ * @param {string[]} paths - The recorded file paths.
+ * @returns {FileTreeNode[]} - The root nodes of the tree.
+ */
+export function buildFileTree(paths: readonly string[]): FileTreeNode[] {
+	const root: FileTreeNode[] = []
+	const folders: Record<string, FileTreeNode> = {}
+
+	for (const path of paths) {
+		const segments = path.split(/[\\/]/).filter(Boolean)
+		let siblings = root
+		let folderPath = ""
+
+		segments.forEach((segment, index) => {
+			if (index === segments.length - 1) {
+				siblings.push({ name: segment, path, type: "file", children: [] })
+				return
+			}
+			folderPath = folderPath ? `${folderPath}/${segment}` : segment
+			let folder = folders[folderPath]
+			if (!folder) {
+				folder = {
+					name: segment,
+					path: folderPath,
+					type: "folder",
+					children: [],
+				}
+				folders[folderPath] = folder
+				siblings.push(folder)
+			}
+			siblings = folder.children
+		})
+	}
+
+	sortNodes(root)
+	return root
+}
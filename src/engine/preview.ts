@@ -0,0 +1,80 @@
+import type { RecordedStep, SnapshotEngine } from "./snapshot"
+import { getCommonPrefixLength } from "./textDiff"
+
+/**
+ * A few lines of the active file around the line being edited.
+ * @property {string} file - The active file.
+ * @property {number} startLine - Number of the first line of `lines`, starting from 1.
+ * @property {string[]} lines - The lines shown in the preview.
+ * @property {number} focusLine - Number of the line being edited.
+ */
+export interface CodePreview {
+	file: string
+	startLine: number
+	lines: string[]
+	focusLine: number
+}
+
+/**
+ * Number of lines shown in a preview by default.
+ */
+const PREVIEW_LINES = 7
+
+/**
+ * Creates a function that returns the preview of the recording at a time.
+ *
+ * Previews are read from the engine, so they never touch the editor models.
+ * The last preview is cached, since the pointer usually hovers the same step
+ * for several events.
+ *
+ * @param {SnapshotEngine} engine - The engine of the recording.
+ * @param {number} lineCount - The number of lines of each preview.
+ * @returns A function from a time in milliseconds to its preview, or `null` before the first step.
+ */
+export function createPreview(
+	engine: SnapshotEngine,
+	lineCount: number = PREVIEW_LINES,
+) {
+	let cached: { stepIndex: number; preview: CodePreview | null } | null = null
+
+	/**
+	 * Returns the offset the step at `stepIndex` focuses on: the end of the
+	 * inserted text, the author's cursor or the first changed character.
+	 */
+	const getFocusOffset = (step: RecordedStep, text: string) => {
+		if (step.edit) return step.edit.rangeOffset + step.text.length
+		if (step.selections?.length) return step.selections[0].active
+		if (step.type !== "content") return 0
+		const previous = engine.getFileAtStep(step.file, step.index - 1) ?? ""
+		return getCommonPrefixLength(previous, text)
+	}
+
+	return (time: number): CodePreview | null => {
+		const stepIndex = engine.getStepIndexAt(time)
+		if (cached?.stepIndex === stepIndex) return cached.preview
+
+		let preview: CodePreview | null = null
+		const step = engine.steps[stepIndex]
+		const text = step && engine.getFileAtStep(step.file, stepIndex)
+		if (step && text !== undefined) {
+			const lines = text.split(/\r?\n/)
+			const offset = Math.min(getFocusOffset(step, text), text.length)
+			const focusLine = text.slice(0, offset).split("\n").length
+			const startLine = Math.max(
+				1,
+				Math.min(
+					focusLine - Math.floor(lineCount / 2),
+					lines.length - lineCount + 1,
+				),
+			)
+			preview = {
+				file: step.file,
+				startLine,
+				lines: lines.slice(startLine - 1, startLine - 1 + lineCount),
+				focusLine,
+			}
+		}
+		cached = { stepIndex, preview }
+		return preview
+	}
+}
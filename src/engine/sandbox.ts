@@ -0,0 +1,41 @@
+import { createTwoFilesPatch } from "diff"
+
+/**
+ * Edits made by a viewer to a recorded file while playback was paused.
+ * @property {string} file - The recorded file path.
+ * @property {string} recordedText - The contents of the file in the recording.
+ * @property {string} editedText - The contents of the file after the viewer's edits.
+ * @property {string} patch - A unified diff from `recordedText` to `editedText`.
+ */
+export interface SandboxEdit {
+	file: string
+	recordedText: string
+	editedText: string
+	patch: string
+}
+
+/**
+ * Describes the viewer's edits to a file against the recorded snapshot.
+ *
+ * @param {string} file - The recorded file path.
+ * @param {string} recordedText - The contents of the file in the recording.
+ * @param {string} editedText - The contents of the file after the viewer's edits.
+ * @returns {SandboxEdit} - The edit, including a unified diff.
+ */
+export function createSandboxEdit(
+	file: string,
+	recordedText: string,
+	editedText: string,
+): SandboxEdit {
+	return {
+		file,
+		recordedText,
+		editedText,
+		patch: createTwoFilesPatch(
+			`a/${file}`,
+			`b/${file}`,
+			recordedText,
+			editedText,
+		),
+	}
+}
@@ -0,0 +1,150 @@
+/**
+ * The time source driving a playback scheduler.
+ * @property {() => number} now - Returns the current wall time in milliseconds.
+ * @property {(callback: () => void) => number} requestFrame - Schedules `callback` for the next frame.
+ * @property {(handle: number) => void} cancelFrame - Cancels a frame scheduled with `requestFrame`.
+ */
+export interface SchedulerClock {
+	now: () => number
+	requestFrame: (callback: () => void) => number
+	cancelFrame: (handle: number) => void
+}
+
+/**
+ * Clock backed by `requestAnimationFrame`, used by default in the browser.
+ */
+export const animationFrameClock: SchedulerClock = {
+	now: () => performance.now(),
+	requestFrame: (callback) => requestAnimationFrame(() => callback()),
+	cancelFrame: (handle) => cancelAnimationFrame(handle),
+}
+
+/**
+ * Options for a playback scheduler.
+ * @property {SchedulerClock} clock - The time source, `animationFrameClock` by default.
+ * @property {number} duration - Total duration in seconds.
+ * @property {number} speed - Initial playback speed.
+ * @property {(time: number, previousTime: number) => void} onTick - Called on every frame in which the playback time moved.
+ * @property {() => void} onEnded - Called when playback reaches `duration`.
+ */
+interface PlaybackSchedulerOptions {
+	clock?: SchedulerClock
+	duration?: number
+	speed?: number
+	onTick?: (time: number, previousTime: number) => void
+	onEnded?: () => void
+}
+
+/**
+ * A single frame loop that turns wall time into playback time.
+ */
+export interface PlaybackScheduler {
+	/** Returns the playback time in seconds. */
+	getTime: () => number
+	/** Returns whether the scheduler is running. */
+	isPlaying: () => boolean
+	play: () => void
+	pause: () => void
+	/** Moves the playback time without notifying `onTick`. */
+	seek: (time: number) => void
+	setSpeed: (speed: number) => void
+	setDuration: (duration: number) => void
+	/** Stops the frame loop for good. */
+	dispose: () => void
+}
+
+/**
+ * Creates a playback scheduler.
+ *
+ * The playback time is derived from the wall time elapsed since the last
+ * play, seek or speed change, so a speed change never needs rescheduling and
+ * frames skipped while the tab was in the background are caught up on the
+ * next tick: `onTick` then receives the whole interval at once and the
+ * consumer applies every step due in it.
+ *
+ * @param options - The scheduler options.
+ * @returns The playback scheduler.
+ */
+export function createPlaybackScheduler({
+	clock = animationFrameClock,
+	duration = 0,
+	speed = 1,
+	onTick,
+	onEnded,
+}: PlaybackSchedulerOptions = {}): PlaybackScheduler {
+	let anchorTime = 0
+	let anchorNow = 0
+	let lastTime = 0
+	let currentSpeed = speed
+	let currentDuration = duration
+	let playing = false
+	let frame: number | null = null
+
+	const clamp = (time: number) => Math.min(Math.max(time, 0), currentDuration)
+
+	const getTime = () =>
+		playing
+			? clamp(anchorTime + ((clock.now() - anchorNow) / 1000) * currentSpeed)
+			: anchorTime
+
+	const cancelFrame = () => {
+		if (frame === null) return
+		clock.cancelFrame(frame)
+		frame = null
+	}
+
+	const tick = () => {
+		frame = null
+		if (!playing) return
+
+		const time = getTime()
+		const previousTime = lastTime
+		lastTime = time
+		if (time !== previousTime) onTick?.(time, previousTime)
+
+		if (time >= currentDuration) {
+			playing = false
+			anchorTime = time
+			onEnded?.()
+			return
+		}
+		frame = clock.requestFrame(tick)
+	}
+
+	return {
+		getTime,
+		isPlaying: () => playing,
+		play: () => {
+			if (playing) return
+			playing = true
+			anchorNow = clock.now()
+			frame = clock.requestFrame(tick)
+		},
+		pause: () => {
+			if (!playing) return
+			anchorTime = getTime()
+			lastTime = anchorTime
+			playing = false
+			cancelFrame()
+		},
+		seek: (time) => {
+			anchorTime = clamp(time)
+			anchorNow = clock.now()
+			lastTime = anchorTime
+		},
+		setSpeed: (nextSpeed) => {
+			anchorTime = getTime()
+			anchorNow = clock.now()
+			currentSpeed = nextSpeed
+		},
+		setDuration: (nextDuration) => {
+			anchorTime = getTime()
+			anchorNow = clock.now()
+			currentDuration = nextDuration
+		},
+		dispose: () => {
+			playing = false
+			cancelFrame()
+		},
+	}
+}
@@ -0,0 +1,341 @@
+import type { StepSelection, StepType, StepVisibleRange } from "../types"
+
+/**
+ * A change step with its `StepText` payload already decoded.
+ * @property {number} index - Position of the step in the time-ordered list.
+ * @property {number} sequence - The sequence number assigned by the recorder.
+ * @property {number} timeStart - Time in milliseconds at which the step is applied.
+ * @property {number} timeEnd - Time in milliseconds at which the step ends.
+ * @property {string} file - The recorded file path the step belongs to.
+ * @property {string} text - The complete contents of the file after a keyframe, or the inserted text of a delta.
+ * @property {string} language - The language reported by the recorder.
+ * @property {StepType} type - The kind of event recorded by the step.
+ * @property {TextEdit | undefined} edit - The replaced range, for delta steps.
+ * @property {StepSelection[] | undefined} selections - The author's selections, for selection steps.
+ * @property {StepVisibleRange | undefined} visibleRange - The lines visible to the author, for viewport steps.
+ */
+export interface RecordedStep {
+	index: number
+	sequence: number
+	timeStart: number
+	timeEnd: number
+	file: string
+	text: string
+	language: string
+	type: StepType
+	edit?: TextEdit
+	selections?: StepSelection[]
+	visibleRange?: StepVisibleRange
+}
+
+/**
+ * The range replaced by a delta step.
+ * @property {number} rangeOffset - Offset of the first replaced character.
+ * @property {number} rangeLength - Number of replaced characters.
+ */
+export interface TextEdit {
+	rangeOffset: number
+	rangeLength: number
+}
+
+/**
+ * Where the author's cursor was.
+ * @property {number} stepIndex - Index of the step that placed the cursor.
+ * @property {string} file - The file the cursor is in.
+ * @property {StepSelection[]} selections - The selections, the first one being the primary.
+ */
+export interface AuthorCursor {
+	stepIndex: number
+	file: string
+	selections: StepSelection[]
+}
+
+/**
+ * What the author was looking at.
+ * @property {number} stepIndex - Index of the step that scrolled the editor.
+ * @property {string} file - The file shown to the author.
+ * @property {StepVisibleRange} visibleRange - The lines visible to the author.
+ */
+export interface AuthorViewport {
+	stepIndex: number
+	file: string
+	visibleRange: StepVisibleRange
+}
+
+/**
+ * The exact state of a recording at a given time.
+ * @property {number} time - The time in milliseconds the snapshot was taken at.
+ * @property {number} stepIndex - Index of the last applied step, or -1 if none was applied yet.
+ * @property {string | null} activeFile - The file of the last applied step.
+ * @property {Record<string, string>} files - Contents of every file that exists at `time`.
+ * @property {AuthorCursor | null} cursor - The author's cursor, once it is known.
+ * @property {AuthorViewport | null} viewport - The author's viewport, once it is known.
+ */
+export interface RecordingSnapshot {
+	time: number
+	stepIndex: number
+	activeFile: string | null
+	files: Record<string, string>
+	cursor: AuthorCursor | null
+	viewport: AuthorViewport | null
+}
+
+/**
+ * Answers "what did the recording look like at time t" without side effects.
+ */
+export interface SnapshotEngine {
+	/** The decoded steps, ordered by `timeStart`. Replaced by a new array when steps are appended. */
+	readonly steps: readonly RecordedStep[]
+	/** Every recorded file path, in order of first appearance. Replaced by a new array when files are added. */
+	readonly files: readonly string[]
+	/** Total duration of the recording in milliseconds. */
+	readonly duration: number
+	/**
+	 * Appends steps loaded after the engine was created. They must not start
+	 * before the last step and their `index` must continue the existing ones.
+	 */
+	append: (steps: readonly RecordedStep[]) => void
+	/** Returns the index of the last step applied at `time`, or -1. */
+	getStepIndexAt: (time: number) => number
+	/** Returns the time at which `file` first appears, or `undefined` if it is never recorded. */
+	getFirstAppearance: (file: string) => number | undefined
+	/** Returns the contents of `file` at `time`, or `undefined` if it does not exist yet. */
+	getFileAt: (file: string, time: number) => string | undefined
+	/** Returns the contents of `file` after the step at `stepIndex`, or `undefined` if it does not exist yet. */
+	getFileAtStep: (file: string, stepIndex: number) => string | undefined
+	/** Returns the contents of every file at `time`. */
+	getSnapshotAt: (time: number) => RecordingSnapshot
+}
+
+/**
+ * Number of consecutive delta steps of a file after which the engine stores
+ * the full contents, bounding the work of a random seek.
+ */
+const CHECKPOINT_INTERVAL = 64
+
+/**
+ * Applies a delta step to the contents of its file.
+ *
+ * @param text - The contents before the step.
+ * @param step - The delta step.
+ * @returns The contents after the step.
+ */
+export function applyStep(text: string, step: RecordedStep): string {
+	if (!step.edit) return step.text
+	const { rangeOffset, rangeLength } = step.edit
+	return (
+		text.slice(0, rangeOffset) +
+		step.text +
+		text.slice(rangeOffset + rangeLength)
+	)
+}
+
+/**
+ * Finds the last position in a sorted list whose value is lower than or
+ * equal to `target`.
+ *
+ * @param length - Length of the list.
+ * @param valueAt - Returns the value at a given position.
+ * @param target - The value to look for.
+ * @returns The position found, or -1 if every value is greater than `target`.
+ */
+function findLastLowerOrEqual(
+	length: number,
+	valueAt: (position: number) => number,
+	target: number,
+): number {
+	let low = 0
+	let high = length - 1
+	let result = -1
+	while (low <= high) {
+		const middle = (low + high) >> 1
+		if (valueAt(middle) <= target) {
+			result = middle
+			low = middle + 1
+		} else {
+			high = middle - 1
+		}
+	}
+	return result
+}
+
+/**
+ * Creates a snapshot engine for a recording.
+ *
+ * Keyframe steps carry the complete contents of their file, delta steps
+ * only the edited range. The engine keeps a per-file index of steps and
+ * finds the last step of a file with a binary search. Its contents are then
+ * rebuilt from the closest keyframe or checkpoint, stored every
+ * `CHECKPOINT_INTERVAL` deltas, so random seeks stay fast on long
+ * recordings. The last rebuilt contents of each file are cached, so
+ * sequential playback applies one delta per step. Steps can be appended
+ * while a streamed recording is still loading.
+ *
+ * The author's cursor comes from the last selection step or delta, which
+ * leaves the cursor after the inserted text, and the viewport from the last
+ * viewport step.
+ *
+ * @param initialSteps - The decoded steps ordered by time, as returned by `loadRecording`.
+ * @returns The snapshot engine.
+ */
+export function createSnapshotEngine(
+	initialSteps: readonly RecordedStep[],
+): SnapshotEngine {
+	let steps: readonly RecordedStep[] = []
+	let files: readonly string[] = []
+	let duration = 0
+	const stepsByFile: Record<string, number[]> = {}
+	// Full contents of each file at some of its positions, keyed by position
+	const checkpoints: Record<string, Record<number, string>> = {}
+	// Contents of each file after its last step and the deltas applied since the last checkpoint
+	const tails: Record<string, { text: string; deltas: number }> = {}
+	// Steps that move the author's cursor and steps that scroll the editor
+	const cursorSteps: number[] = []
+	const viewportSteps: number[] = []
+
+	const append = (newSteps: readonly RecordedStep[]) => {
+		if (newSteps.length === 0) return
+		const newFiles: string[] = []
+		// New arrays let consumers notice that steps or files were added
+		steps = steps.concat(newSteps)
+		for (const step of newSteps) {
+			duration = Math.max(duration, step.timeEnd)
+			// An empty delta only switches file, it does not move the cursor
+			const movesCursor = step.edit && (step.edit.rangeLength || step.text)
+			if (step.type === "selection" || movesCursor) {
+				cursorSteps.push(step.index)
+			}
+			if (step.type === "viewport") viewportSteps.push(step.index)
+			if (step.type !== "content") continue
+			if (!stepsByFile[step.file]) {
+				stepsByFile[step.file] = []
+				checkpoints[step.file] = {}
+				tails[step.file] = { text: "", deltas: 0 }
+				newFiles.push(step.file)
+			}
+			const position = stepsByFile[step.file].push(step.index) - 1
+			const tail = tails[step.file]
+			tail.text = applyStep(tail.text, step)
+			tail.deltas = step.edit ? tail.deltas + 1 : 0
+			if (tail.deltas === CHECKPOINT_INTERVAL) {
+				checkpoints[step.file][position] = tail.text
+				tail.deltas = 0
+			}
+		}
+		if (newFiles.length > 0) files = files.concat(newFiles)
+	}
+	append(initialSteps)
+
+	const lastBuilt: Record<string, { position: number; text: string }> = {}
+
+	/**
+	 * Returns the last of `indexes` applied at `stepIndex`, or `undefined`.
+	 */
+	const findLastStep = (indexes: readonly number[], stepIndex: number) => {
+		const position = findLastLowerOrEqual(
+			indexes.length,
+			(i) => indexes[i],
+			stepIndex,
+		)
+		return position === -1 ? undefined : steps[indexes[position]]
+	}
+
+	const getCursorAtStep = (stepIndex: number): AuthorCursor | null => {
+		const step = findLastStep(cursorSteps, stepIndex)
+		if (!step) return null
+		let selections = step.selections ?? []
+		if (step.edit) {
+			const offset = step.edit.rangeOffset + step.text.length
+			selections = [{ anchor: offset, active: offset }]
+		}
+		return { stepIndex: step.index, file: step.file, selections }
+	}
+
+	const getViewportAtStep = (stepIndex: number): AuthorViewport | null => {
+		const step = findLastStep(viewportSteps, stepIndex)
+		if (!step?.visibleRange) return null
+		return {
+			stepIndex: step.index,
+			file: step.file,
+			visibleRange: step.visibleRange,
+		}
+	}
+
+	const getStepIndexAt = (time: number) =>
+		findLastLowerOrEqual(
+			steps.length,
+			(position) => steps[position].timeStart,
+			time,
+		)
+
+	const getFileAtStep = (file: string, stepIndex: number) => {
+		const indexes = stepsByFile[file]
+		if (!indexes) return undefined
+		const position = findLastLowerOrEqual(
+			indexes.length,
+			(i) => indexes[i],
+			stepIndex,
+		)
+		if (position === -1) return undefined
+
+		// Start from the closest position whose full contents are known
+		const cached = lastBuilt[file]
+		let start = position
+		while (
+			start >= 0 &&
+			steps[indexes[start]].edit &&
+			checkpoints[file][start] === undefined &&
+			cached?.position !== start
+		) {
+			start--
+		}
+		let text = ""
+		if (start >= 0) {
+			text =
+				cached?.position === start
+					? cached.text
+					: checkpoints[file][start] ?? steps[indexes[start]].text
+		}
+		for (let i = start + 1; i <= position; i++) {
+			text = applyStep(text, steps[indexes[i]])
+		}
+		lastBuilt[file] = { position, text }
+		return text
+	}
+
+	return {
+		get steps() {
+			return steps
+		},
+		get files() {
+			return files
+		},
+		get duration() {
+			return duration
+		},
+		append,
+		getStepIndexAt,
+		getFirstAppearance: (file) => {
+			const indexes = stepsByFile[file]
+			return indexes ? steps[indexes[0]].timeStart : undefined
+		},
+		getFileAt: (file, time) => getFileAtStep(file, getStepIndexAt(time)),
+		getFileAtStep,
+		getSnapshotAt: (time) => {
+			const stepIndex = getStepIndexAt(time)
+			const snapshot: RecordingSnapshot = {
+				time,
+				stepIndex,
+				activeFile: stepIndex === -1 ? null : steps[stepIndex].file,
+				files: {},
+				cursor: getCursorAtStep(stepIndex),
+				viewport: getViewportAtStep(stepIndex),
+			}
+			for (const file of files) {
+				const text = getFileAtStep(file, stepIndex)
+				if (text !== undefined) snapshot.files[file] = text
+			}
+			return snapshot
+		},
+	}
+}
@@ -0,0 +1,89 @@
+/**
+ * Represents the changes made to a range of text in a document.
+ * @property {number} rangeOffset - The offset of the changed range from the start of the document.
+ * @property {number} rangeLength - The length of the changed range.
+ * @property {string} rangeText - The new text that was inserted or replaced.
+ * @property {string} originalText - The original text that was replaced.
+ * @property {string} targetText - The text that the range was changed to.
+ */
+export interface Changes2DRange {
+	rangeOffset: number
+	rangeLength: number
+	rangeText: string
+	originalText: string
+	targetText: string
+}
+
+/**
+ * Calculates the single edit that turns `originalText` into `text`.
+ *
+ * The edit spans everything between the common prefix and the common suffix
+ * of the two strings. It returns an object containing the following properties:
+ *
+ * - `rangeOffset`: The starting offset of the changed range.
+ * - `rangeLength`: The length of the changed range.
+ * - `rangeText`: The text to be inserted at the changed range.
+ * - `originalText`: The original text.
+ * - `targetText`: The target text.
+ *
+ * If the `originalText` and `text` are the same, the function returns `null`.
+ *
+ * @param {string} text - The target text to compare against the original text.
+ * @param {string} originalText - The original text to compare against the target text.
+ * @returns {Changes2DRange | null} - An object containing the details of the changes, or `null` if there are no changes.
+ */
+export function getTextDifference2DRanges(
+	text: string,
+	originalText: string,
+): Changes2DRange | null {
+	if (originalText === text) return null
+
+	const prefix = getCommonPrefixLength(originalText, text)
+	const suffix = getCommonSuffixLength(originalText, text, prefix)
+	return {
+		rangeOffset: prefix,
+		rangeLength: originalText.length - prefix - suffix,
+		rangeText: text.slice(prefix, text.length - suffix),
+		originalText,
+		targetText: text,
+	}
+}
+
+/**
+ * Returns the length of the common prefix of two strings.
+ *
+ * @param {string} a - The first string.
+ * @param {string} b - The second string.
+ * @returns {number} - The number of leading characters the strings share.
+ */
+export function getCommonPrefixLength(a: string, b: string): number {
+	const length = Math.min(a.length, b.length)
+	let i = 0
+	while (i < length && a.charCodeAt(i) === b.charCodeAt(i)) i++
+	return i
+}
+
+/**
+ * Returns the length of the common suffix of two strings, leaving out their
+ * first `prefixLength` characters so that prefix and suffix never overlap.
+ *
+ * @param {string} a - The first string.
+ * @param {string} b - The second string.
+ * @param {number} prefixLength - The length of their common prefix.
+ * @returns {number} - The number of trailing characters the strings share.
+ */
+export function getCommonSuffixLength(
+	a: string,
+	b: string,
+	prefixLength = 0,
+): number {
+	const length = Math.min(a.length, b.length) - prefixLength
+	let i = 0
+	while (
+		i < length &&
+		a.charCodeAt(a.length - 1 - i) === b.charCodeAt(b.length - 1 - i)
+	) {
+		i++
+	}
+	return i
+}
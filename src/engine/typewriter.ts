@@ -0,0 +1,145 @@
+import type { RecordingSnapshot, SnapshotEngine } from "./snapshot"
+import { getCommonPrefixLength, getCommonSuffixLength } from "./textDiff"
+
+/**
+ * How large inserts are typed out.
+ * @property {number} threshold - Minimum number of inserted characters that triggers the animation.
+ * @property {"character" | "line"} granularity - Whether the insert is revealed one character or one line at a time.
+ */
+export interface TypewriterSettings {
+	threshold: number
+	granularity: "character" | "line"
+}
+
+/**
+ * An insert being typed out.
+ * @property {string} file - The file the text is inserted into.
+ * @property {number} offset - Where the text is inserted.
+ * @property {string} text - The whole inserted text.
+ * @property {number} revealed - How many characters of `text` are shown.
+ */
+export interface TypewriterInsert {
+	file: string
+	offset: number
+	text: string
+	revealed: number
+}
+
+/**
+ * A snapshot with the insert of its last step possibly typed out.
+ * @property {RecordingSnapshot} snapshot - The snapshot to render.
+ * @property {TypewriterInsert | null} insert - The insert being typed out, or `null` if the snapshot is exact.
+ */
+export interface TypewriterFrame {
+	snapshot: RecordingSnapshot
+	insert: TypewriterInsert | null
+}
+
+/**
+ * The text a step inserts and where.
+ */
+interface StepInsert {
+	offset: number
+	text: string
+}
+
+/**
+ * Returns how many characters of `text` are shown once `fraction` of the
+ * animation has elapsed.
+ */
+function getRevealedLength(
+	text: string,
+	fraction: number,
+	granularity: TypewriterSettings["granularity"],
+) {
+	if (granularity === "character") return Math.floor(fraction * text.length)
+
+	const lineEnds: number[] = []
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === "\n") lineEnds.push(i + 1)
+	}
+	if (lineEnds[lineEnds.length - 1] !== text.length) lineEnds.push(text.length)
+	const lines = Math.floor(fraction * lineEnds.length)
+	return lines === 0 ? 0 : lineEnds[lines - 1]
+}
+
+/**
+ * Creates the typewriter presentation of a recording.
+ *
+ * A step inserting at least `threshold` characters is revealed gradually
+ * between its `timeStart` and the end of its window: its `timeEnd`, or the
+ * start of the next step if that comes first. What is shown depends only on
+ * the time, so seeking lands on the same frame as playing, and seeking past
+ * the window shows the complete insert. Faster playback speeds the typing
+ * up with the clock.
+ *
+ * @param {SnapshotEngine} engine - The snapshot engine of the recording.
+ * @returns {(snapshot: RecordingSnapshot, settings: TypewriterSettings) => TypewriterFrame} - Turns an exact snapshot into the frame to render.
+ */
+export function createTypewriter(engine: SnapshotEngine) {
+	// The inserts of keyframes come from the text between the common prefix
+	// and suffix of the two versions, computed once per step. A single range
+	// always rebuilds the final text, unlike a character diff with many hunks
+	const keyframeInserts: Record<number, StepInsert | null> = {}
+
+	const getStepInsert = (stepIndex: number, finalText: string) => {
+		const step = engine.steps[stepIndex]
+		if (step.edit) {
+			return { offset: step.edit.rangeOffset, text: step.text }
+		}
+		if (!(stepIndex in keyframeInserts)) {
+			const previousText = engine.getFileAtStep(step.file, stepIndex - 1) ?? ""
+			const prefix = getCommonPrefixLength(previousText, finalText)
+			const suffix = getCommonSuffixLength(previousText, finalText, prefix)
+			keyframeInserts[stepIndex] =
+				previousText === finalText
+					? null
+					: {
+							offset: prefix,
+							text: finalText.slice(prefix, finalText.length - suffix),
+						}
+		}
+		return keyframeInserts[stepIndex]
+	}
+
+	return (
+		snapshot: RecordingSnapshot,
+		{ threshold, granularity }: TypewriterSettings,
+	): TypewriterFrame => {
+		const exact = { snapshot, insert: null }
+		const { stepIndex, time } = snapshot
+		const step = engine.steps[stepIndex]
+		if (!step || step.type !== "content") return exact
+
+		const next = engine.steps[stepIndex + 1]
+		const windowEnd = Math.min(step.timeEnd, next ? next.timeStart : Infinity)
+		if (time >= windowEnd || windowEnd <= step.timeStart) return exact
+
+		const finalText = snapshot.files[step.file]
+		const stepInsert = getStepInsert(stepIndex, finalText)
+		if (!stepInsert || stepInsert.text.length < threshold) return exact
+
+		const fraction = (time - step.timeStart) / (windowEnd - step.timeStart)
+		const revealed = getRevealedLength(stepInsert.text, fraction, granularity)
+		const { offset, text } = stepInsert
+		const cursor = offset + revealed
+		return {
+			snapshot: {
+				...snapshot,
+				files: {
+					...snapshot.files,
+					[step.file]:
+						finalText.slice(0, cursor) + finalText.slice(offset + text.length),
+				},
+				cursor:
+					snapshot.cursor?.stepIndex === stepIndex
+						? {
+								...snapshot.cursor,
+								selections: [{ anchor: cursor, active: cursor }],
+							}
+						: snapshot.cursor,
+			},
+			insert: { file: step.file, offset, text, revealed },
+		}
+	}
+}
@@ -0,0 +1,146 @@
+import { createGifEncoder } from "../gif"
+
+/**
+ * Creates an opaque frame from the color of each pixel.
+ */
+function createFrame(
+	width: number,
+	height: number,
+	getColor: (pixel: number) => [number, number, number],
+) {
+	const data = new Uint8Array(width * height * 4)
+	for (let pixel = 0; pixel < width * height; pixel++) {
+		data.set([...getColor(pixel), 255], pixel * 4)
+	}
+	return { width, height, data }
+}
+
+/**
+ * Decodes the LZW image data starting at `offset`, as a GIF decoder would.
+ */
+function decodeImageData(bytes: Uint8Array, offset: number) {
+	const minCodeSize = bytes[offset++]
+	const data: number[] = []
+	while (bytes[offset] !== 0) {
+		const size = bytes[offset]
+		data.push(...Array.from(bytes.subarray(offset + 1, offset + 1 + size)))
+		offset += size + 1
+	}
+
+	const clearCode = 1 << minCodeSize
+	const endCode = clearCode + 1
+	let codeSize = minCodeSize + 1
+	let dictionary: number[][] = []
+	let previous: number[] | null = null
+	let bit = 0
+	const indexes: number[] = []
+	for (;;) {
+		let code = 0
+		for (let i = 0; i < codeSize; i++, bit++) {
+			code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i
+		}
+		if (code === clearCode) {
+			codeSize = minCodeSize + 1
+			dictionary = []
+			for (let i = 0; i < clearCode; i++) dictionary[i] = [i]
+			dictionary.length = endCode + 1
+			previous = null
+			continue
+		}
+		if (code === endCode) break
+		const entry: number[] =
+			code < dictionary.length
+				? dictionary[code]
+				: [...(previous as number[]), (previous as number[])[0]]
+		indexes.push(...entry)
+		if (previous && dictionary.length < 4096) {
+			dictionary.push([...previous, entry[0]])
+			if (dictionary.length === 1 << codeSize && codeSize < 12) codeSize++
+		}
+		previous = entry
+	}
+	return { indexes, next: offset + 1 }
+}
+
+/**
+ * Reads the frames of a GIF written by the encoder, as RGB colors.
+ */
+function readGif(bytes: Uint8Array) {
+	const view = new DataView(bytes.buffer, bytes.byteOffset)
+	const palette = bytes.subarray(13, 13 + 768)
+	const frames: { delay: number; colors: number[] }[] = []
+	// Header, screen descriptor, global palette and loop extension
+	let offset = 6 + 7 + 768 + 19
+	while (bytes[offset] === 0x21) {
+		const delay = view.getUint16(offset + 4, true)
+		offset += 8
+		expect(bytes[offset]).toBe(0x2c)
+		const { indexes, next } = decodeImageData(bytes, offset + 10)
+		const colors: number[] = []
+		for (const index of indexes) {
+			colors.push(...Array.from(palette.subarray(index * 3, index * 3 + 3)))
+		}
+		frames.push({ delay, colors })
+		offset = next
+	}
+	expect(bytes[offset]).toBe(0x3b)
+	expect(offset).toBe(bytes.length - 1)
+	return frames
+}
+
+describe("createGifEncoder", () => {
+	it("writes the GIF89a header and the size of the animation", () => {
+		const bytes = createGifEncoder(20, 10).finish()
+		expect(String.fromCharCode(...Array.from(bytes.subarray(0, 6)))).toBe(
+			"GIF89a",
+		)
+		const view = new DataView(bytes.buffer)
+		expect([view.getUint16(6, true), view.getUint16(8, true)]).toEqual([20, 10])
+		expect(readGif(bytes)).toEqual([])
+	})
+
+	it("encodes frames that decode to the closest palette colors", () => {
+		let state = 1
+		const random = () => {
+			state = (state * 1103515245 + 12345) % 2147483648
+			return Math.floor((state / 2147483648) * 6) * 51
+		}
+		const width = 96
+		const height = 64
+		// Noise fills the dictionary past 4096 codes, forcing a clear code
+		const noise = createFrame(width, height, () => [
+			random(),
+			random(),
+			random(),
+		])
+		const flat = createFrame(width, height, () => [30, 30, 30])
+		const stripes = createFrame(width, height, (pixel) =>
+			pixel % 7 < 3 ? [255, 255, 255] : [51, 102, 153],
+		)
+
+		const encoder = createGifEncoder(width, height)
+		encoder.addFrame(noise, 4)
+		encoder.addFrame(flat, 0)
+		encoder.addFrame(stripes, 250)
+		const frames = readGif(encoder.finish())
+
+		expect(frames.map((frame) => frame.delay)).toEqual([4, 1, 250])
+		frames.forEach(({ colors }, index) => {
+			const { data } = [noise, flat, stripes][index]
+			expect(colors).toHaveLength(width * height * 3)
+			// Cube colors and grays map to an entry at most 8 levels away
+			const error = colors.reduce((max, value, i) => {
+				const expected = data[Math.floor(i / 3) * 4 + (i % 3)]
+				return Math.max(max, Math.abs(value - expected))
+			}, 0)
+			expect(error).toBeLessThanOrEqual(8)
+		})
+	})
+
+	it("rejects frames of another size", () => {
+		const frame = createFrame(4, 4, () => [0, 0, 0])
+		expect(() => createGifEncoder(8, 8).addFrame(frame, 1)).toThrow(
+			"Expected a 8×8 frame, got 4×4",
+		)
+	})
+})
@@ -0,0 +1,176 @@
+import type { CodePreview } from "../engine/preview"
+
+/**
+ * Size and colors of the exported frames. The defaults match the dark theme
+ * of the player.
+ */
+export interface FrameStyle {
+	width: number
+	height: number
+	fontSize: number
+	lineHeight: number
+	fontFamily: string
+	background: string
+	foreground: string
+	tabBackground: string
+	lineNumber: string
+	focusLine: string
+	accent: string
+}
+
+/**
+ * The pixels of a rendered frame, in the layout of `ImageData`: four bytes
+ * per pixel, RGBA, row by row.
+ */
+export interface RasterFrame {
+	width: number
+	height: number
+	data: Uint8Array | Uint8ClampedArray
+}
+
+/**
+ * Converts an SVG frame to pixels. In Node it can be backed by any SVG
+ * rasterizer, such as `@resvg/resvg-js`.
+ */
+export type FrameRasterizer = (
+	svg: string,
+	width: number,
+	height: number,
+) => RasterFrame | Promise<RasterFrame>
+
+export const DEFAULT_FRAME_STYLE: FrameStyle = {
+	width: 640,
+	height: 360,
+	fontSize: 13,
+	lineHeight: 19,
+	fontFamily: "Menlo, Monaco, 'Courier New', monospace",
+	background: "#1e1e1e",
+	foreground: "#d4d4d4",
+	tabBackground: "#252526",
+	lineNumber: "#858585",
+	focusLine: "#233d49",
+	accent: "#3399cc",
+}
+
+const TAB_BAR_HEIGHT = 28
+const PROGRESS_BAR_HEIGHT = 4
+const PADDING = 8
+
+/**
+ * Returns how many lines of code fit in a frame.
+ *
+ * @param {FrameStyle} style - The style of the frames.
+ * @returns {number} - The number of visible lines.
+ */
+export function getVisibleLineCount(style: FrameStyle): number {
+	const codeHeight =
+		style.height - TAB_BAR_HEIGHT - PROGRESS_BAR_HEIGHT - PADDING * 2
+	return Math.max(1, Math.floor(codeHeight / style.lineHeight))
+}
+
+function escapeXml(text: string) {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+}
+
+/**
+ * Renders a frame of the recording as an SVG document: a tab with the active
+ * file, its lines around the one being edited and the progress of the clip.
+ *
+ * @param {CodePreview | null} preview - The code to show, `null` before the first step.
+ * @param {number | null} progress - The progress of the clip, from 0 to 1, or `null` to hide the progress bar.
+ * @param {FrameStyle} style - The style of the frame.
+ * @returns {string} - The SVG document.
+ */
+export function renderFrameSvg(
+	preview: CodePreview | null,
+	progress: number | null,
+	style: FrameStyle = DEFAULT_FRAME_STYLE,
+): string {
+	const { width, height, fontSize, lineHeight } = style
+	const gutterWidth = Math.ceil(fontSize * 0.6 * 4) + PADDING * 2
+	const baseline = Math.round((lineHeight + fontSize * 0.7) / 2)
+	const parts = [
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+		`<rect width="${width}" height="${height}" fill="${style.background}"/>`,
+		`<rect width="${width}" height="${TAB_BAR_HEIGHT}" fill="${style.tabBackground}"/>`,
+	]
+
+	if (preview) {
+		const fileName = escapeXml(preview.file.split("/").pop() ?? preview.file)
+		const tabWidth = Math.min(
+			width,
+			Math.ceil(fileName.length * fontSize * 0.6) + PADDING * 4,
+		)
+		parts.push(
+			`<rect width="${tabWidth}" height="${TAB_BAR_HEIGHT}" fill="${style.background}"/>`,
+			`<rect width="${tabWidth}" height="2" fill="${style.accent}"/>`,
+			`<text x="${PADDING * 2}" y="${TAB_BAR_HEIGHT / 2 + fontSize * 0.35}" fill="${style.foreground}" font-family="${escapeXml(style.fontFamily)}" font-size="${fontSize}">${fileName}</text>`,
+		)
+
+		parts.push(
+			`<g font-family="${escapeXml(style.fontFamily)}" font-size="${fontSize}" xml:space="preserve">`,
+		)
+		preview.lines.forEach((line, i) => {
+			const lineNumber = preview.startLine + i
+			const top = TAB_BAR_HEIGHT + PADDING + i * lineHeight
+			if (lineNumber === preview.focusLine) {
+				parts.push(
+					`<rect y="${top}" width="${width}" height="${lineHeight}" fill="${style.focusLine}"/>`,
+				)
+			}
+			parts.push(
+				`<text x="${gutterWidth - PADDING}" y="${top + baseline}" fill="${style.lineNumber}" text-anchor="end">${lineNumber}</text>`,
+			)
+			if (line) {
+				parts.push(
+					`<text x="${gutterWidth}" y="${top + baseline}" fill="${style.foreground}">${escapeXml(line.replace(/\t/g, "    "))}</text>`,
+				)
+			}
+		})
+		parts.push("</g>")
+	}
+
+	if (progress !== null) {
+		const progressWidth = Math.round(Math.min(Math.max(progress, 0), 1) * width)
+		parts.push(
+			`<rect y="${height - PROGRESS_BAR_HEIGHT}" width="${width}" height="${PROGRESS_BAR_HEIGHT}" fill="${style.tabBackground}"/>`,
+			`<rect y="${height - PROGRESS_BAR_HEIGHT}" width="${progressWidth}" height="${PROGRESS_BAR_HEIGHT}" fill="${style.accent}"/>`,
+		)
+	}
+	parts.push("</svg>")
+	return parts.join("")
+}
+
+/**
+ * Rasterizes SVG frames with the browser's image decoder and a canvas.
+ *
+ * @param {string} svg - The SVG document.
+ * @param {number} width - The width of the frame in pixels.
+ * @param {number} height - The height of the frame in pixels.
+ * @returns {Promise<RasterFrame>} - The pixels of the frame.
+ */
+export async function rasterizeInBrowser(
+	svg: string,
+	width: number,
+	height: number,
+): Promise<RasterFrame> {
+	const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }))
+	try {
+		const image = new Image(width, height)
+		image.src = url
+		await image.decode()
+		const canvas = document.createElement("canvas")
+		canvas.width = width
+		canvas.height = height
+		const context = canvas.getContext("2d")
+		if (!context) throw new Error("Canvas 2D context is not available")
+		context.drawImage(image, 0, 0, width, height)
+		return context.getImageData(0, 0, width, height)
+	} finally {
+		URL.revokeObjectURL(url)
+	}
+}
@@ -0,0 +1,220 @@
+import type { RasterFrame } from "./frame"
+
+/**
+ * Builds the global palette: a 6×6×6 color cube plus 40 grays, which covers
+ * the theme colors and the antialiasing of text on a flat background.
+ */
+function createPalette(): Uint8Array {
+	const palette = new Uint8Array(256 * 3)
+	let index = 0
+	for (let r = 0; r < 6; r++) {
+		for (let g = 0; g < 6; g++) {
+			for (let b = 0; b < 6; b++) {
+				palette.set([r * 51, g * 51, b * 51], index * 3)
+				index++
+			}
+		}
+	}
+	for (let i = 0; index < 256; i++, index++) {
+		const gray = Math.round(((i + 1) * 255) / 41)
+		palette.set([gray, gray, gray], index * 3)
+	}
+	return palette
+}
+
+/**
+ * Maps every color with 5 bits per channel to its closest palette entry.
+ */
+function createColorLookup(palette: Uint8Array): Uint8Array {
+	const lookup = new Uint8Array(32768)
+	for (let color = 0; color < 32768; color++) {
+		const r = ((color >> 10) << 3) | 4
+		const g = (((color >> 5) & 31) << 3) | 4
+		const b = ((color & 31) << 3) | 4
+		let best = 0
+		let bestDistance = Infinity
+		for (let i = 0; i < 256; i++) {
+			const dr = palette[i * 3] - r
+			const dg = palette[i * 3 + 1] - g
+			const db = palette[i * 3 + 2] - b
+			const distance = dr * dr * 3 + dg * dg * 4 + db * db * 2
+			if (distance < bestDistance) {
+				best = i
+				bestDistance = distance
+			}
+		}
+		lookup[color] = best
+	}
+	return lookup
+}
+
+/**
+ * Growable byte buffer.
+ */
+function createByteWriter() {
+	let bytes = new Uint8Array(65536)
+	let length = 0
+
+	const ensure = (size: number) => {
+		if (length + size <= bytes.length) return
+		let capacity = bytes.length * 2
+		while (capacity < length + size) capacity *= 2
+		const next = new Uint8Array(capacity)
+		next.set(bytes.subarray(0, length))
+		bytes = next
+	}
+
+	return {
+		byte(value: number) {
+			ensure(1)
+			bytes[length++] = value
+		},
+		word(value: number) {
+			ensure(2)
+			bytes[length++] = value & 0xff
+			bytes[length++] = (value >> 8) & 0xff
+		},
+		bytes(values: ArrayLike<number>) {
+			ensure(values.length)
+			bytes.set(values, length)
+			length += values.length
+		},
+		toBytes() {
+			return bytes.slice(0, length)
+		},
+	}
+}
+
+type ByteWriter = ReturnType<typeof createByteWriter>
+
+/**
+ * Writes the LZW compressed image data, split into sub-blocks.
+ */
+function writeImageData(writer: ByteWriter, indexes: Uint8Array) {
+	const minCodeSize = 8
+	const clearCode = 1 << minCodeSize
+	const endCode = clearCode + 1
+	let codeSize = minCodeSize + 1
+	let nextCode = endCode + 1
+	let dictionary = new Map<number, number>()
+
+	const block: number[] = []
+	let bitBuffer = 0
+	let bitCount = 0
+	const emit = (code: number) => {
+		bitBuffer |= code << bitCount
+		bitCount += codeSize
+		while (bitCount >= 8) {
+			block.push(bitBuffer & 0xff)
+			bitBuffer >>= 8
+			bitCount -= 8
+			if (block.length === 255) {
+				writer.byte(255)
+				writer.bytes(block)
+				block.length = 0
+			}
+		}
+	}
+
+	writer.byte(minCodeSize)
+	emit(clearCode)
+	let prefix = indexes[0]
+	for (let i = 1; i < indexes.length; i++) {
+		const key = (prefix << 8) | indexes[i]
+		const code = dictionary.get(key)
+		if (code !== undefined) {
+			prefix = code
+			continue
+		}
+		emit(prefix)
+		if (nextCode === 4096) {
+			emit(clearCode)
+			dictionary = new Map()
+			codeSize = minCodeSize + 1
+			nextCode = endCode + 1
+		} else {
+			if (nextCode === 1 << codeSize) codeSize++
+			dictionary.set(key, nextCode++)
+		}
+		prefix = indexes[i]
+	}
+	emit(prefix)
+	emit(endCode)
+	if (bitCount > 0) block.push(bitBuffer & 0xff)
+	if (block.length > 0) {
+		writer.byte(block.length)
+		writer.bytes(block)
+	}
+	writer.byte(0)
+}
+
+/**
+ * Creates an animated GIF encoder. Frames are encoded as they are added, so
+ * only the compressed output is kept in memory.
+ *
+ * @param {number} width - The width of the animation in pixels.
+ * @param {number} height - The height of the animation in pixels.
+ * @returns The encoder.
+ */
+export function createGifEncoder(width: number, height: number) {
+	const palette = createPalette()
+	const lookup = createColorLookup(palette)
+	const writer = createByteWriter()
+	const indexes = new Uint8Array(width * height)
+
+	writer.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]) // GIF89a
+	writer.word(width)
+	writer.word(height)
+	writer.byte(0xf7) // Global palette of 256 colors
+	writer.byte(0)
+	writer.byte(0)
+	writer.bytes(palette)
+	// Loop forever
+	writer.bytes([0x21, 0xff, 0x0b])
+	writer.bytes(Array.from("NETSCAPE2.0", (char) => char.charCodeAt(0)))
+	writer.bytes([0x03, 0x01, 0x00, 0x00, 0x00])
+
+	return {
+		/**
+		 * Adds a frame shown for `delay` hundredths of a second.
+		 *
+		 * @param {RasterFrame} frame - The pixels of the frame, of the size of the animation.
+		 * @param {number} delay - The duration of the frame in hundredths of a second.
+		 */
+		addFrame(frame: RasterFrame, delay: number) {
+			if (frame.width !== width || frame.height !== height) {
+				throw new Error(
+					`Expected a ${width}×${height} frame, got ${frame.width}×${frame.height}`,
+				)
+			}
+			const { data } = frame
+			for (let i = 0; i < indexes.length; i++) {
+				const r = data[i * 4] >> 3
+				const g = data[i * 4 + 1] >> 3
+				const b = data[i * 4 + 2] >> 3
+				indexes[i] = lookup[(r << 10) | (g << 5) | b]
+			}
+
+			writer.bytes([0x21, 0xf9, 0x04, 0x04])
+			writer.word(Math.min(Math.max(Math.round(delay), 1), 0xffff))
+			writer.bytes([0x00, 0x00])
+			writer.byte(0x2c)
+			writer.word(0)
+			writer.word(0)
+			writer.word(width)
+			writer.word(height)
+			writer.byte(0)
+			writeImageData(writer, indexes)
+		},
+
+		/**
+		 * Ends the animation.
+		 *
+		 * @returns {Uint8Array} - The GIF file.
+		 */
+		finish(): Uint8Array {
+			writer.byte(0x3b)
+			return writer.toBytes()
+		},
+	}
+}
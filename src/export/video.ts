@@ -0,0 +1,250 @@
+import type { ChangeStep } from "../types"
+import { loadRecording } from "../format/loader"
+import { createSnapshotEngine } from "../engine/snapshot"
+import { createPreview } from "../engine/preview"
+import {
+	DEFAULT_FRAME_STYLE,
+	getVisibleLineCount,
+	rasterizeInBrowser,
+	renderFrameSvg,
+	type FrameRasterizer,
+	type FrameStyle,
+	type RasterFrame,
+} from "./frame"
+import { createGifEncoder } from "./gif"
+
+/**
+ * Options of `exportRecording`.
+ */
+export interface ExportOptions {
+	/** The output format. */
+	format: "gif" | "webm"
+	/** Start of the clip in seconds. Defaults to `0`. */
+	start?: number
+	/** End of the clip in seconds. Defaults to the end of the recording. */
+	end?: number
+	/** Playback speed of the clip. Defaults to `1`. */
+	speed?: number
+	/** Frames per second of the output. Defaults to `10`. */
+	fps?: number
+	/**
+	 * Whether frames show the progress of the clip. Without it, frames where
+	 * the code does not change are merged, making GIFs much smaller. Defaults to `true`.
+	 */
+	progressBar?: boolean
+	/** Size and colors of the frames. */
+	style?: Partial<FrameStyle>
+	/**
+	 * Converts the SVG frames to pixels. Required outside the browser, where
+	 * only the GIF format is available.
+	 */
+	rasterize?: FrameRasterizer
+	/** Called after each frame with the progress of the export, from 0 to 1. */
+	onProgress?: (progress: number) => void
+}
+
+/**
+ * A frame of the clip.
+ * @property {string} svg - The rendered frame.
+ * @property {number} time - When the frame is shown, in seconds from the start of the clip.
+ */
+interface ClipFrame {
+	svg: string
+	time: number
+}
+
+/**
+ * The frames to export.
+ * @property {number} duration - The duration of the clip in seconds, at the chosen speed.
+ * @property {number} frameCount - The number of frames.
+ * @property {(index: number) => ClipFrame} renderFrame - Renders a frame of the clip.
+ */
+interface Clip {
+	duration: number
+	frameCount: number
+	renderFrame: (index: number) => ClipFrame
+}
+
+/**
+ * Prepares the frames of the clip, reading the recording at the same times
+ * as the player would at the chosen speed.
+ */
+function createClip(
+	recording: string | readonly ChangeStep[],
+	options: ExportOptions,
+	style: FrameStyle,
+): Clip {
+	const speed = options.speed ?? 1
+	const fps = options.fps ?? 10
+	if (!(speed > 0) || !(fps > 0)) {
+		throw new RangeError("The speed and the frame rate must be positive")
+	}
+
+	const engine = createSnapshotEngine(loadRecording(recording).steps)
+	const preview = createPreview(engine, getVisibleLineCount(style))
+	const recordingDuration = engine.duration / 1000
+	const start = Math.min(Math.max(options.start ?? 0, 0), recordingDuration)
+	const end = Math.min(
+		Math.max(options.end ?? recordingDuration, start),
+		recordingDuration,
+	)
+	const duration = (end - start) / speed
+	const progressBar = options.progressBar ?? true
+
+	return {
+		duration,
+		frameCount: Math.max(1, Math.ceil(duration * fps)),
+		renderFrame: (index) => {
+			const time = index / fps
+			return {
+				svg: renderFrameSvg(
+					preview((start + time * speed) * 1000),
+					progressBar ? (duration > 0 ? time / duration : 1) : null,
+					style,
+				),
+				time,
+			}
+		},
+	}
+}
+
+/**
+ * A GIF frame waiting for the next different frame, which sets its duration.
+ */
+interface PendingFrame {
+	svg: string
+	pixels: RasterFrame
+	time: number
+}
+
+async function encodeGif(
+	clip: Clip,
+	style: FrameStyle,
+	rasterize: FrameRasterizer,
+	onFrame: (index: number) => void,
+): Promise<Uint8Array> {
+	const encoder = createGifEncoder(style.width, style.height)
+	const addFrame = (frame: PendingFrame, endTime: number) => {
+		const delay = Math.round(endTime * 100) - Math.round(frame.time * 100)
+		encoder.addFrame(frame.pixels, delay)
+	}
+
+	// Identical frames are merged by extending the duration of the first one
+	let pending: PendingFrame | null = null
+	for (let i = 0; i < clip.frameCount; i++) {
+		const frame = clip.renderFrame(i)
+		if (frame.svg !== pending?.svg) {
+			const pixels = await rasterize(frame.svg, style.width, style.height)
+			if (pending) addFrame(pending, frame.time)
+			pending = { ...frame, pixels }
+		}
+		onFrame(i)
+	}
+	if (pending) addFrame(pending, Math.max(clip.duration, pending.time + 0.01))
+	return encoder.finish()
+}
+
+/**
+ * Records the frames with a `MediaRecorder`. Recording happens in real time,
+ * so the export lasts as long as the clip.
+ */
+async function encodeWebm(
+	clip: Clip,
+	style: FrameStyle,
+	rasterize: FrameRasterizer,
+	onFrame: (index: number) => void,
+): Promise<Uint8Array> {
+	if (typeof MediaRecorder === "undefined" || typeof document === "undefined") {
+		throw new Error("Exporting to WebM requires a browser with MediaRecorder")
+	}
+	const canvas = document.createElement("canvas")
+	canvas.width = style.width
+	canvas.height = style.height
+	const context = canvas.getContext("2d")
+	if (!context) throw new Error("Canvas 2D context is not available")
+
+	const stream = canvas.captureStream(0)
+	const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[]
+	const mimeType = MediaRecorder.isTypeSupported("video/webm;codecs=vp9")
+		? "video/webm;codecs=vp9"
+		: "video/webm"
+	const recorder = new MediaRecorder(stream, { mimeType })
+	const chunks: Blob[] = []
+	recorder.ondataavailable = (event) => chunks.push(event.data)
+	const stopped = new Promise<void>((resolve) => {
+		recorder.onstop = () => resolve()
+	})
+
+	let lastSvg = ""
+	const drawFrame = async (svg: string) => {
+		if (svg === lastSvg) return
+		lastSvg = svg
+		const pixels = await rasterize(svg, style.width, style.height)
+		context.putImageData(
+			new ImageData(
+				new Uint8ClampedArray(pixels.data),
+				pixels.width,
+				pixels.height,
+			),
+			0,
+			0,
+		)
+		track.requestFrame()
+	}
+
+	// The first frame is drawn before recording, so the video does not open on a blank canvas
+	await drawFrame(clip.renderFrame(0).svg)
+	recorder.start()
+	const startedAt = Date.now()
+	const waitUntil = (time: number) =>
+		new Promise((resolve) =>
+			setTimeout(resolve, Math.max(0, startedAt + time * 1000 - Date.now())),
+		)
+
+	for (let i = 0; i < clip.frameCount; i++) {
+		const { svg, time } = clip.renderFrame(i)
+		await waitUntil(time)
+		await drawFrame(svg)
+		onFrame(i)
+	}
+	await waitUntil(clip.duration)
+	recorder.stop()
+	await stopped
+	track.stop()
+
+	const blob = new Blob(chunks, { type: mimeType })
+	return new Uint8Array(await blob.arrayBuffer())
+}
+
+/**
+ * Exports a clip of a recording as an animated GIF or a WebM video.
+ *
+ * Frames show the active file around the line being edited, styled like
+ * the player, at the times the player would show them. The GIF encoder has
+ * no browser dependency, so with a `rasterize` function GIFs can also be
+ * exported in Node. WebM videos are recorded with `MediaRecorder` in real
+ * time.
+ *
+ * @param {string | ChangeStep[]} recording - The recording, in any format accepted by `loadRecording`.
+ * @param {ExportOptions} options - The format and the clip to export.
+ * @returns {Promise<Uint8Array>} - The encoded file.
+ * @throws {RecordingFormatError} - If the recording is malformed.
+ */
+export async function exportRecording(
+	recording: string | readonly ChangeStep[],
+	options: ExportOptions,
+): Promise<Uint8Array> {
+	const style = { ...DEFAULT_FRAME_STYLE, ...options.style }
+	const rasterize = options.rasterize ?? rasterizeInBrowser
+	if (!options.rasterize && typeof document === "undefined") {
+		throw new Error("Exporting outside the browser requires a rasterize function")
+	}
+
+	const clip = createClip(recording, options, style)
+	const onFrame = (index: number) =>
+		options.onProgress?.((index + 1) / clip.frameCount)
+
+	return options.format === "webm"
+		? encodeWebm(clip, style, rasterize, onFrame)
+		: encodeGif(clip, style, rasterize, onFrame)
+}
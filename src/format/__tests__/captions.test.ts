@@ -0,0 +1,57 @@
+import { parseCaptions } from "../captions"
+
+describe("parseCaptions", () => {
+	it("parses SRT cues with hours and comma fractions", () => {
+		const cues = parseCaptions(
+			[
+				"1",
+				"00:00:01,000 --> 00:00:02,500",
+				"Primo",
+				"",
+				"2",
+				"01:02:03,450 --> 01:02:05,005",
+				"Secondo,",
+				"su due righe",
+				"",
+			].join("\r\n"),
+		)
+		expect(cues).toEqual([
+			{ start: 1, end: 2.5, text: "Primo" },
+			{ start: 3723.45, end: 3725.005, text: "Secondo,\nsu due righe" },
+		])
+	})
+
+	it("parses WebVTT cues without hours, with settings and markup", () => {
+		const cues = parseCaptions(
+			[
+				"\uFEFFWEBVTT",
+				"",
+				"NOTE scritto a mano",
+				"",
+				"intro",
+				"01:02.5 --> 01:04.000 line:90%",
+				"<v Anna>Ciao &amp; <b>benvenuti</b></v>",
+			].join("\n"),
+		)
+		expect(cues).toEqual([{ start: 62.5, end: 64, text: "Ciao & benvenuti" }])
+	})
+
+	it("skips empty cues and cues that end before they start", () => {
+		const cues = parseCaptions(
+			[
+				"00:05.000 --> 00:06.000",
+				"Dopo",
+				"",
+				"00:03.000 --> 00:02.000",
+				"Al contrario",
+				"",
+				"00:01.000 --> 00:02.000",
+				"<i></i>",
+				"",
+				"00:00.000 --> 00:01.000",
+				"Prima",
+			].join("\n"),
+		)
+		expect(cues.map((cue) => cue.text)).toEqual(["Prima", "Dopo"])
+	})
+})
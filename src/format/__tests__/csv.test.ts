@@ -0,0 +1,112 @@
+import type { StepText } from "../../types"
+import { RecordingFormatError } from "../errors"
+import { isRecorderCsv, parseRecorderCsv } from "../csv"
+
+const HEADER = "Sequence,Time,File,RangeOffset,RangeLength,Text,Language,Type"
+
+const readText = (text: string) => JSON.parse(text) as StepText
+
+describe("isRecorderCsv", () => {
+	it("recognizes the recorder header", () => {
+		expect(isRecorderCsv(`${HEADER}\n`)).toBe(true)
+		expect(isRecorderCsv(`\uFEFF"Sequence","Time"\r\n`)).toBe(true)
+		expect(isRecorderCsv('[{"sequence":1}]')).toBe(false)
+	})
+})
+
+describe("parseRecorderCsv", () => {
+	it("turns tab rows into keyframes and content rows into deltas", () => {
+		const steps = parseRecorderCsv(
+			[
+				HEADER,
+				"1,0,src/app.ts,0,0,const a = 1,typescript,tab",
+				"2,150,src/app.ts,10,1,2,,content",
+			].join("\n"),
+		)
+		expect(steps).toHaveLength(2)
+		expect(readText(steps[0].text)).toEqual({
+			text: "const a = 1",
+			file: "src/app.ts",
+		})
+		expect(readText(steps[1].text)).toEqual({
+			text: "2",
+			file: "src/app.ts",
+			rangeOffset: 10,
+			rangeLength: 1,
+		})
+		expect(steps[1].language).toBe("typescript")
+		expect(steps.map(({ timeStart, timeEnd }) => [timeStart, timeEnd])).toEqual(
+			[
+				[0, 150],
+				[150, 150],
+			],
+		)
+	})
+
+	it("reads quoted fields with commas, escaped quotes and line breaks", () => {
+		const text = 'const s = "a, b"\r\nconsole.log(s)\n'
+		const steps = parseRecorderCsv(
+			`${HEADER}\r\n1,0,"dir, with comma/a.ts",0,0,"${text.replace(/"/g, '""')}",typescript,tab\r\n`,
+		)
+		expect(steps).toHaveLength(1)
+		expect(readText(steps[0].text)).toEqual({
+			text,
+			file: "dir, with comma/a.ts",
+		})
+	})
+
+	it("finds the columns by name, in any order and case", () => {
+		const steps = parseRecorderCsv(
+			[
+				"type,text,file,time,sequence,rangeoffset,rangelength,language",
+				"tab,x,a.ts,5,1,0,0,typescript",
+			].join("\n"),
+		)
+		expect(steps[0]).toMatchObject({ sequence: 1, timeStart: 5 })
+		expect(readText(steps[0].text).text).toBe("x")
+	})
+
+	it("converts selections and skips other events", () => {
+		const steps = parseRecorderCsv(
+			[
+				HEADER,
+				"1,0,a.ts,0,0,abc,typescript,tab",
+				"2,10,a.ts,1,2,,typescript,selection_mouse",
+				"3,20,,0,0,ls,,terminal_command",
+			].join("\n"),
+		)
+		expect(steps).toHaveLength(2)
+		expect(readText(steps[1].text)).toMatchObject({
+			type: "selection",
+			selections: [{ anchor: 1, active: 3 }],
+		})
+	})
+
+	it("keeps the contents of a known file on an empty tab row", () => {
+		const steps = parseRecorderCsv(
+			[
+				HEADER,
+				"1,0,a.ts,0,0,abc,typescript,tab",
+				"2,10,b.ts,0,0,,typescript,tab",
+				"3,20,a.ts,0,0,,typescript,tab",
+			].join("\n"),
+		)
+		expect(readText(steps[1].text)).toEqual({ text: "", file: "b.ts" })
+		expect(readText(steps[2].text)).toEqual({
+			text: "",
+			file: "a.ts",
+			rangeOffset: 0,
+			rangeLength: 0,
+		})
+	})
+
+	it("rejects missing columns and malformed rows", () => {
+		expect(() => parseRecorderCsv("Sequence,Time,File\n1,0,a.ts")).toThrow(
+			'Missing column "RangeOffset" in the recorder CSV header',
+		)
+		const parse = () =>
+			parseRecorderCsv(`${HEADER}\n1,soon,a.ts,0,0,x,typescript,tab`)
+		expect(parse).toThrow(RecordingFormatError)
+		expect(parse).toThrow(/field "Time": expected a non-negative number/)
+	})
+})
@@ -0,0 +1,134 @@
+import type { ChangeStep, StepText } from "../../types"
+import { RecordingFormatError } from "../errors"
+import { loadRecording } from "../loader"
+
+function createStep(
+	sequence: number,
+	timeStart: number,
+	payload: Partial<StepText> & Record<string, unknown>,
+	overrides: Partial<ChangeStep> = {},
+): ChangeStep {
+	return {
+		sequence,
+		timeStart,
+		timeEnd: timeStart + 10,
+		language: "typescript",
+		text: JSON.stringify({ file: "index.ts", text: "", ...payload }),
+		...overrides,
+	}
+}
+
+/**
+ * Returns the error thrown by `loadRecording`, failing if none is thrown.
+ */
+function getLoadError(source: string | ChangeStep[]): RecordingFormatError {
+	try {
+		loadRecording(source)
+	} catch (error) {
+		expect(error).toBeInstanceOf(RecordingFormatError)
+		return error as RecordingFormatError
+	}
+	throw new Error("Expected the recording to be rejected")
+}
+
+describe("loadRecording", () => {
+	it("decodes keyframes, deltas, selections and viewports", () => {
+		const { steps, warnings } = loadRecording([
+			createStep(1, 0, { text: "const a = 1" }),
+			createStep(2, 10, { text: "b", rangeOffset: 6, rangeLength: 1 }),
+			createStep(3, 20, {
+				type: "selection",
+				selections: [{ anchor: 0, active: 5 }],
+			}),
+			createStep(4, 30, {
+				type: "viewport",
+				visibleRange: { startLine: 1, endLine: 20 },
+			}),
+		])
+		expect(warnings).toEqual([])
+		expect(steps.map((step) => step.index)).toEqual([0, 1, 2, 3])
+		expect(steps[0]).toMatchObject({ file: "index.ts", type: "content" })
+		expect(steps[0].edit).toBeUndefined()
+		expect(steps[1].edit).toEqual({ rangeOffset: 6, rangeLength: 1 })
+		expect(steps[2].selections).toEqual([{ anchor: 0, active: 5 }])
+		expect(steps[3].visibleRange).toEqual({ startLine: 1, endLine: 20 })
+	})
+
+	it("accepts the JSON serialization of a recording", () => {
+		const recording = [createStep(1, 0, { text: "x" })]
+		expect(loadRecording(JSON.stringify(recording)).steps).toHaveLength(1)
+	})
+
+	it("rejects sources that are not a list of steps", () => {
+		expect(getLoadError("{").message).toMatch(/invalid JSON/)
+		expect(getLoadError('{"steps": []}').message).toBe(
+			"Expected an array of change steps",
+		)
+	})
+
+	it("names the step and the field at fault", () => {
+		const error = getLoadError([
+			createStep(1, 0, { text: "a" }),
+			createStep(2, 10, { text: "b" }, { timeStart: -5 }),
+		])
+		expect(error).toMatchObject({ index: 1, sequence: 2, field: "timeStart" })
+		expect(error.message).toBe(
+			'Step 2 (index 1), field "timeStart": expected a non-negative number',
+		)
+	})
+
+	it("rejects malformed payloads", () => {
+		expect(getLoadError([createStep(1, 0, {}, { text: "{" })]).field).toBe(
+			"text",
+		)
+		expect(getLoadError([createStep(1, 0, { file: "" })]).field).toBe(
+			"text.file",
+		)
+		expect(
+			getLoadError([createStep(1, 0, { type: "scroll" as "content" })]).field,
+		).toBe("text.type")
+		expect(
+			getLoadError([
+				createStep(1, 0, {
+					type: "selection",
+					selections: [{ anchor: -1, active: 0 }],
+				}),
+			]).field,
+		).toBe("text.selections")
+		expect(
+			getLoadError([
+				createStep(1, 0, {
+					type: "viewport",
+					visibleRange: { startLine: 5, endLine: 2 },
+				}),
+			]).field,
+		).toBe("text.visibleRange")
+		expect(
+			getLoadError([createStep(1, 0, { rangeOffset: 1.5, rangeLength: 0 })])
+				.field,
+		).toBe("text.rangeOffset")
+	})
+
+	it("rejects deltas that fall outside their file", () => {
+		const error = getLoadError([
+			createStep(1, 0, { text: "abc" }),
+			createStep(2, 10, { text: "", rangeOffset: 2, rangeLength: 4 }),
+		])
+		expect(error).toMatchObject({ index: 1, field: "text.rangeOffset" })
+		expect(error.message).toMatch(/exceeds the 3 characters of "index.ts"/)
+	})
+
+	it("warns about steps out of order and sorts them by time", () => {
+		const { steps, warnings } = loadRecording([
+			createStep(1, 20, { text: "late" }),
+			createStep(1, 10, { text: "early" }, { timeEnd: 5 }),
+		])
+		expect(warnings.map(({ message }) => message)).toEqual([
+			"sequence 1 does not follow 1",
+			"timeStart 10 precedes 20",
+			"timeEnd 5 precedes timeStart 10",
+		])
+		expect(steps.map((step) => step.text)).toEqual(["early", "late"])
+		expect(steps[0].timeEnd).toBe(10)
+	})
+})
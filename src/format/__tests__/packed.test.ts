@@ -0,0 +1,154 @@
+import type { ChangeStep } from "../../types"
+import { RecordingFormatError } from "../errors"
+import { loadRecording } from "../loader"
+import { encodePackedRecording, loadPackedRecording } from "../packed"
+import type { RecordingSource } from "../source"
+
+/**
+ * Packs raw chunks by hand, so that the decoder can be fed chunks the encoder
+ * would never write.
+ */
+async function packChunks(chunks: unknown[]): Promise<Uint8Array> {
+	const parts: Uint8Array[] = [new Uint8Array([0x56, 0x43, 0x50, 0x52, 1])]
+	for (const chunk of chunks) {
+		const stream = new Blob([JSON.stringify(chunk)])
+			.stream()
+			.pipeThrough(new CompressionStream("gzip"))
+		const compressed = new Uint8Array(await new Response(stream).arrayBuffer())
+		const length = new Uint8Array(4)
+		new DataView(length.buffer).setUint32(0, compressed.length)
+		parts.push(length, compressed)
+	}
+	const bytes = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+	parts.reduce((offset, part) => {
+		bytes.set(part, offset)
+		return offset + part.length
+	}, 0)
+	return bytes
+}
+
+/**
+ * Resolves once the source has loaded every step or failed.
+ */
+function whenComplete(source: RecordingSource): Promise<RecordingSource> {
+	return new Promise((resolve) => {
+		if (source.isComplete()) return resolve(source)
+		const unsubscribe = source.subscribe(() => {
+			if (!source.isComplete()) return
+			unsubscribe()
+			resolve(source)
+		})
+	})
+}
+
+async function getPackedError(chunks: unknown[]) {
+	const source = await whenComplete(
+		loadPackedRecording(await packChunks(chunks)),
+	)
+	expect(source.getError()).toBeInstanceOf(RecordingFormatError)
+	return source.getError() as RecordingFormatError
+}
+
+const recording: ChangeStep[] = [
+	{ file: "src/app.ts", text: "const a = 1\n" },
+	{ file: "src/app.ts", text: "b = 2", rangeOffset: 6, rangeLength: 5 },
+	{ file: "index.html", text: "<p>ciao, \"mondo\"</p>" },
+	{
+		file: "src/app.ts",
+		text: "",
+		type: "selection",
+		selections: [{ anchor: 0, active: 5 }],
+	},
+	{
+		file: "index.html",
+		text: "",
+		type: "viewport",
+		visibleRange: { startLine: 1, endLine: 30 },
+	},
+	{ file: "index.html", text: "", rangeOffset: 3, rangeLength: 5 },
+].map((payload, index) => ({
+	sequence: index + 1,
+	timeStart: index * 250,
+	timeEnd: index * 250 + 100,
+	language: payload.file.endsWith(".ts") ? "typescript" : "html",
+	text: JSON.stringify(payload),
+}))
+
+describe("encodePackedRecording", () => {
+	it("decodes to the same steps, whatever the chunk size", async () => {
+		const { steps } = loadRecording(recording)
+		for (const stepsPerChunk of [1, 4, 500]) {
+			const packed = await encodePackedRecording(recording, { stepsPerChunk })
+			const source = await whenComplete(loadPackedRecording(packed))
+			expect(source.getError()).toBeNull()
+			expect(source.getSteps()).toEqual(steps)
+		}
+	})
+
+	it("rejects truncated recordings", async () => {
+		const packed = await encodePackedRecording(recording)
+		const source = await whenComplete(
+			loadPackedRecording(packed.subarray(0, packed.length - 1)),
+		)
+		expect(source.getError()?.message).toBe(
+			"The packed recording is truncated",
+		)
+	})
+})
+
+describe("loadPackedRecording", () => {
+	it("rejects deltas outside the file, across chunks", async () => {
+		const error = await getPackedError([
+			{ strings: ["a.ts", "typescript"], steps: [[1, 0, 10, 0, 1, "abc"]] },
+			{ strings: [], steps: [[1, 10, 10, 0, 1, "", 2, 4]] },
+		])
+		expect(error).toMatchObject({
+			index: 1,
+			sequence: 2,
+			field: "text.rangeOffset",
+		})
+		expect(error.message).toMatch(/exceeds the 3 characters of "a.ts"/)
+	})
+
+	it("rejects malformed ranges, selections and viewports", async () => {
+		const strings = ["a.ts", "typescript"]
+		const fieldOf = async (step: unknown[]) =>
+			(
+				await getPackedError([
+					{ strings, steps: [[1, 0, 10, 0, 1, "abc"], step] },
+				])
+			).field
+		expect(await fieldOf([1, 10, 10, 0, 1, "", 0.5, 1])).toBe(
+			"text.rangeOffset",
+		)
+		expect(await fieldOf([1, 10, 10, 0, 1, "", 0, -1])).toBe(
+			"text.rangeLength",
+		)
+		expect(
+			await fieldOf([
+				1,
+				10,
+				10,
+				0,
+				1,
+				"",
+				null,
+				null,
+				{ type: "selection", selections: [{ anchor: "0", active: 1 }] },
+			]),
+		).toBe("text.selections")
+		expect(
+			await fieldOf([
+				1,
+				10,
+				10,
+				0,
+				1,
+				"",
+				null,
+				null,
+				{ type: "viewport", visibleRange: { startLine: 0, endLine: 1 } },
+			]),
+		).toBe("text.visibleRange")
+	})
+})
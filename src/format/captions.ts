@@ -0,0 +1,63 @@
+import type { CaptionCue } from "../types"
+
+/**
+ * Matches the timing line of a cue, such as `00:01:02,500 --> 00:01:04,000`
+ * in SRT or `01:02.500 --> 01:04.000 line:90%` in WebVTT.
+ */
+const TIMING_PATTERN =
+	/^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/
+
+/**
+ * Converts a timestamp such as `01:02:03,450` or `02:03.450` to seconds.
+ */
+function parseTimestamp(timestamp: string): number {
+	const [clock, fraction] = timestamp.split(/[.,]/)
+	const seconds = clock
+		.split(":")
+		.reduce((total, part) => total * 60 + Number(part), 0)
+	return seconds + Number(`0.${fraction}`)
+}
+
+/**
+ * Removes the WebVTT markup, such as `<v Speaker>` or `<b>`, and decodes the
+ * entities allowed in cue text.
+ */
+function stripMarkup(text: string): string {
+	return text
+		.replace(/<[^>]*>/g, "")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&amp;/g, "&")
+}
+
+/**
+ * Parses an SRT or WebVTT captions file.
+ *
+ * Like browsers do with text tracks, blocks without a valid timing line,
+ * such as WebVTT `NOTE` and `STYLE` blocks, are skipped instead of failing
+ * the whole track.
+ *
+ * @param {string} source - The contents of the captions file.
+ * @returns {CaptionCue[]} - The cues ordered by start time.
+ */
+export function parseCaptions(source: string): CaptionCue[] {
+	const blocks = source
+		.replace(/^\uFEFF/, "")
+		.replace(/\r\n?/g, "\n")
+		.split(/\n{2,}/)
+
+	const cues: CaptionCue[] = []
+	for (const block of blocks) {
+		const lines = block.split("\n")
+		const timingIndex = lines.findIndex((line) => TIMING_PATTERN.test(line))
+		// The timing line follows at most a cue identifier
+		if (timingIndex === -1 || timingIndex > 1) continue
+
+		const [, start, end] = TIMING_PATTERN.exec(lines[timingIndex]) ?? []
+		const text = stripMarkup(lines.slice(timingIndex + 1).join("\n")).trim()
+		const cue = { start: parseTimestamp(start), end: parseTimestamp(end), text }
+		if (text && cue.end > cue.start) cues.push(cue)
+	}
+	return cues.sort((a, b) => a.start - b.start)
+}
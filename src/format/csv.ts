@@ -0,0 +1,198 @@
+import type { ChangeStep, StepText } from "../types"
+import { RecordingFormatError } from "./errors"
+
+/**
+ * The columns written by the VS Code Recorder extension.
+ */
+const RECORDER_COLUMNS = [
+	"Sequence",
+	"Time",
+	"File",
+	"RangeOffset",
+	"RangeLength",
+	"Text",
+	"Language",
+	"Type",
+] as const
+
+type RecorderColumn = (typeof RECORDER_COLUMNS)[number]
+
+/**
+ * A row of a VS Code Recorder export.
+ */
+type RecorderRow = Record<RecorderColumn, string>
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180: fields may be
+ * quoted, quotes are escaped by doubling them and quoted fields may span
+ * several lines.
+ *
+ * @param {string} csv - The CSV text.
+ * @returns {string[][]} - The rows, without the empty ones.
+ */
+function parseCsvRows(csv: string): string[][] {
+	const rows: string[][] = []
+	let row: string[] = []
+	let field = ""
+	let quoted = false
+
+	const endRow = () => {
+		row.push(field)
+		if (row.length > 1 || row[0] !== "") rows.push(row)
+		row = []
+		field = ""
+	}
+
+	for (let i = 0; i < csv.length; i++) {
+		const char = csv[i]
+		if (quoted) {
+			if (char !== '"') {
+				field += char
+			} else if (csv[i + 1] === '"') {
+				field += '"'
+				i++
+			} else {
+				quoted = false
+			}
+		} else if (char === '"') {
+			quoted = true
+		} else if (char === ",") {
+			row.push(field)
+			field = ""
+		} else if (char === "\n") {
+			endRow()
+		} else if (char !== "\r") {
+			field += char
+		}
+	}
+	endRow()
+	return rows
+}
+
+/**
+ * Returns whether a string looks like a VS Code Recorder export, that is
+ * whether its first line is the recorder header.
+ *
+ * @param {string} source - The text to check.
+ * @returns {boolean} - Whether the text is a recorder CSV.
+ */
+export function isRecorderCsv(source: string): boolean {
+	const header = source.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0]
+	return /^"?sequence"?\s*,/i.test(header.trim())
+}
+
+/**
+ * Converts a VS Code Recorder CSV export into change steps.
+ *
+ * The recorder writes the whole document on `tab` rows and incremental
+ * edits on `content` rows. Tab rows become keyframe steps and content rows
+ * delta steps, so the recording keeps the size of the export. Selection
+ * rows become selection steps spanning `RangeLength` characters from
+ * `RangeOffset`. Rows of other types, such as terminal events, are skipped.
+ *
+ * @param {string} csv - The CSV exported by the recorder.
+ * @returns {ChangeStep[]} - The change steps, in recording order.
+ * @throws {RecordingFormatError} - If a column is missing or a row is malformed.
+ */
+export function parseRecorderCsv(csv: string): ChangeStep[] {
+	const [header, ...records] = parseCsvRows(csv.replace(/^\uFEFF/, ""))
+	const columnIndexes = {} as Record<RecorderColumn, number>
+	for (const column of RECORDER_COLUMNS) {
+		const index = (header ?? []).findIndex(
+			(name) => name.trim().toLowerCase() === column.toLowerCase(),
+		)
+		if (index === -1) {
+			throw new RecordingFormatError(
+				`Missing column "${column}" in the recorder CSV header`,
+			)
+		}
+		columnIndexes[column] = index
+	}
+
+	const rows = records.map((record) => {
+		const row = {} as RecorderRow
+		for (const column of RECORDER_COLUMNS) {
+			row[column] = record[columnIndexes[column]] ?? ""
+		}
+		return row
+	})
+
+	const knownFiles: Record<string, boolean> = {}
+	const languages: Record<string, string> = {}
+	const steps: ChangeStep[] = []
+
+	const readNumber = (
+		row: RecorderRow,
+		column: RecorderColumn,
+		index: number,
+	) => {
+		const value = Number(row[column])
+		if (row[column].trim() === "" || !isFinite(value) || value < 0) {
+			throw new RecordingFormatError("expected a non-negative number", {
+				index,
+				sequence: Number(row.Sequence) || undefined,
+				field: column,
+			})
+		}
+		return value
+	}
+
+	rows.forEach((row, index) => {
+		const type = row.Type.trim().toLowerCase()
+		const isSelection = type.indexOf("selection") === 0
+		if (type !== "tab" && type !== "content" && !isSelection) return
+
+		const sequence = readNumber(row, "Sequence", index)
+		const time = readNumber(row, "Time", index)
+		const file = row.File.trim()
+		if (!file) {
+			throw new RecordingFormatError("expected a file path", {
+				index,
+				sequence,
+				field: "File",
+			})
+		}
+		if (row.Language) languages[file] = row.Language
+
+		let stepText: StepText
+		if (isSelection) {
+			const anchor = readNumber(row, "RangeOffset", index)
+			stepText = {
+				text: "",
+				file,
+				type: "selection",
+				selections: [
+					{ anchor, active: anchor + readNumber(row, "RangeLength", index) },
+				],
+			}
+		} else if (type === "content") {
+			stepText = {
+				text: row.Text,
+				file,
+				rangeOffset: readNumber(row, "RangeOffset", index),
+				rangeLength: readNumber(row, "RangeLength", index),
+			}
+		} else if (row.Text === "" && knownFiles[file]) {
+			// Some recorder versions write an empty text when the file is already
+			// known: an empty delta switches to the file and keeps its contents
+			stepText = { text: "", file, rangeOffset: 0, rangeLength: 0 }
+		} else {
+			stepText = { text: row.Text, file }
+		}
+		knownFiles[file] = true
+
+		steps.push({
+			sequence,
+			timeStart: time,
+			timeEnd: time,
+			text: JSON.stringify(stepText),
+			language: languages[file] ?? "",
+		})
+	})
+
+	// Each step lasts until the next one starts
+	for (let i = 0; i < steps.length - 1; i++) {
+		steps[i].timeEnd = Math.max(steps[i].timeStart, steps[i + 1].timeStart)
+	}
+	return steps
+}
@@ -0,0 +1,31 @@
+/**
+ * Thrown when a recording cannot be loaded, either because it does not match
+ * the `ChangeStep` format or because a recorder export is malformed.
+ * @property {number | undefined} index - Position of the invalid step in the recording.
+ * @property {number | undefined} sequence - Sequence number of the invalid step, when readable.
+ * @property {string | undefined} field - The invalid field, such as `timeStart` or `text.file`.
+ */
+export class RecordingFormatError extends Error {
+	readonly index?: number
+	readonly sequence?: number
+	readonly field?: string
+
+	constructor(
+		message: string,
+		details: { index?: number; sequence?: number; field?: string } = {},
+	) {
+		const location =
+			details.index === undefined
+				? ""
+				: `Step ${details.sequence ?? "?"} (index ${details.index})${
+						details.field ? `, field "${details.field}"` : ""
+					}: `
+		super(`${location}${message}`)
+		this.name = "RecordingFormatError"
+		this.index = details.index
+		this.sequence = details.sequence
+		this.field = details.field
+		// Extending Error loses the prototype when compiling to ES5
+		Object.setPrototypeOf(this, RecordingFormatError.prototype)
+	}
+}
@@ -0,0 +1,351 @@
+import type {
+	ChangeStep,
+	StepSelection,
+	StepText,
+	StepType,
+	StepVisibleRange,
+} from "../types"
+import type { RecordedStep } from "../engine/snapshot"
+import { isRecorderCsv, parseRecorderCsv } from "./csv"
+import { RecordingFormatError } from "./errors"
+
+/**
+ * A problem found in a recording that the loader could work around.
+ * @property {number} index - Position of the step in the recording.
+ * @property {number} sequence - Sequence number of the step.
+ * @property {string} message - Description of the problem.
+ */
+export interface RecordingWarning {
+	index: number
+	sequence: number
+	message: string
+}
+
+/**
+ * A validated recording, ready to be played.
+ * @property {RecordedStep[]} steps - The decoded steps, ordered by `timeStart`.
+ * @property {RecordingWarning[]} warnings - Problems the loader worked around.
+ */
+export interface LoadedRecording {
+	steps: RecordedStep[]
+	warnings: RecordingWarning[]
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+	typeof value === "number" && isFinite(value)
+
+const isOffset = (value: unknown): value is number =>
+	isFiniteNumber(value) && value >= 0 && value % 1 === 0
+
+const STEP_TYPES: readonly StepType[] = ["content", "selection", "viewport"]
+
+/**
+ * Identifies the step being validated in a `RecordingFormatError`.
+ */
+interface StepDetails {
+	index: number
+	sequence: number
+}
+
+/**
+ * Validates the selections of a selection step: a non-empty list of
+ * `{ anchor, active }` offsets.
+ *
+ * @param {unknown} selections - The decoded `selections` field.
+ * @param {StepDetails} details - The step the selections belong to.
+ * @returns {StepSelection[]} - The validated selections.
+ * @throws {RecordingFormatError} - If the selections are malformed.
+ */
+export function validateSelections(
+	selections: unknown,
+	details: StepDetails,
+): StepSelection[] {
+	if (
+		!Array.isArray(selections) ||
+		selections.length === 0 ||
+		!selections.every(
+			(selection: Partial<StepSelection> | null) =>
+				isOffset(selection?.anchor) && isOffset(selection?.active),
+		)
+	) {
+		throw new RecordingFormatError(
+			"expected a list of { anchor, active } offsets in a selection step",
+			{ ...details, field: "text.selections" },
+		)
+	}
+	return selections as StepSelection[]
+}
+
+/**
+ * Validates the visible range of a viewport step.
+ *
+ * @param {unknown} visibleRange - The decoded `visibleRange` field.
+ * @param {StepDetails} details - The step the range belongs to.
+ * @returns {StepVisibleRange} - The validated range.
+ * @throws {RecordingFormatError} - If the range is malformed.
+ */
+export function validateVisibleRange(
+	visibleRange: unknown,
+	details: StepDetails,
+): StepVisibleRange {
+	const range = visibleRange as Partial<StepVisibleRange> | null
+	if (
+		!isOffset(range?.startLine) ||
+		!isOffset(range?.endLine) ||
+		range.startLine < 1 ||
+		range.endLine < range.startLine
+	) {
+		throw new RecordingFormatError(
+			"expected { startLine, endLine } line numbers in a viewport step",
+			{ ...details, field: "text.visibleRange" },
+		)
+	}
+	return { startLine: range.startLine, endLine: range.endLine }
+}
+
+/**
+ * Validates the range of a delta step: two non-negative integers.
+ *
+ * @param {unknown} rangeOffset - The decoded `rangeOffset` field.
+ * @param {unknown} rangeLength - The decoded `rangeLength` field.
+ * @param {StepDetails} details - The step the range belongs to.
+ * @returns The validated range.
+ * @throws {RecordingFormatError} - If the range is malformed.
+ */
+export function validateEdit(
+	rangeOffset: unknown,
+	rangeLength: unknown,
+	details: StepDetails,
+): { rangeOffset: number; rangeLength: number } {
+	if (!isOffset(rangeOffset)) {
+		throw new RecordingFormatError(
+			"expected a non-negative integer in a delta step",
+			{ ...details, field: "text.rangeOffset" },
+		)
+	}
+	if (!isOffset(rangeLength)) {
+		throw new RecordingFormatError(
+			"expected a non-negative integer in a delta step",
+			{ ...details, field: "text.rangeLength" },
+		)
+	}
+	return { rangeOffset, rangeLength }
+}
+
+/**
+ * Returns a checker that replays the length of every file, step by step, and
+ * throws a `RecordingFormatError` when a delta falls outside its file.
+ * Replaying the lengths is enough to check that every delta fits its file.
+ * The steps must be passed in playback order.
+ *
+ * @returns A function checking the next step, given its position in the recording.
+ */
+export function createRangeChecker() {
+	const lengths: Record<string, number> = {}
+	return (step: Omit<RecordedStep, "index">, index: number) => {
+		if (step.type !== "content") return
+		const length = lengths[step.file] ?? 0
+		if (!step.edit) {
+			lengths[step.file] = step.text.length
+			return
+		}
+		const { rangeOffset, rangeLength } = step.edit
+		if (rangeOffset + rangeLength > length) {
+			throw new RecordingFormatError(
+				`range ${rangeOffset}-${rangeOffset + rangeLength} exceeds the ${length} characters of "${step.file}"`,
+				{ index, sequence: step.sequence, field: "text.rangeOffset" },
+			)
+		}
+		lengths[step.file] = length - rangeLength + step.text.length
+	}
+}
+
+/**
+ * Parses a JSON string, turning syntax errors into a `RecordingFormatError`.
+ */
+function parseJson(
+	json: string,
+	details: { index?: number; sequence?: number; field?: string },
+): unknown {
+	try {
+		return JSON.parse(json)
+	} catch (error) {
+		throw new RecordingFormatError(
+			`invalid JSON (${error instanceof Error ? error.message : String(error)})`,
+			details,
+		)
+	}
+}
+
+/**
+ * Validates a single step and decodes its `StepText` payload.
+ */
+function decodeStep(
+	value: unknown,
+	index: number,
+): Omit<RecordedStep, "index"> {
+	if (!isRecord(value)) {
+		throw new RecordingFormatError("expected an object", { index })
+	}
+	const step = value as Partial<Record<keyof ChangeStep, unknown>>
+	if (!isFiniteNumber(step.sequence)) {
+		throw new RecordingFormatError("expected a number", {
+			index,
+			field: "sequence",
+		})
+	}
+	const sequence = step.sequence
+	for (const field of ["timeStart", "timeEnd"] as const) {
+		if (!isFiniteNumber(step[field]) || (step[field] as number) < 0) {
+			throw new RecordingFormatError("expected a non-negative number", {
+				index,
+				sequence,
+				field,
+			})
+		}
+	}
+	if (typeof step.text !== "string") {
+		throw new RecordingFormatError("expected a JSON string", {
+			index,
+			sequence,
+			field: "text",
+		})
+	}
+	if (step.language !== undefined && typeof step.language !== "string") {
+		throw new RecordingFormatError("expected a string", {
+			index,
+			sequence,
+			field: "language",
+		})
+	}
+
+	const payload = parseJson(step.text, { index, sequence, field: "text" })
+	if (!isRecord(payload)) {
+		throw new RecordingFormatError("expected a JSON object", {
+			index,
+			sequence,
+			field: "text",
+		})
+	}
+	const stepText = payload as Partial<Record<keyof StepText, unknown>>
+	if (typeof stepText.file !== "string" || stepText.file === "") {
+		throw new RecordingFormatError("expected a non-empty string", {
+			index,
+			sequence,
+			field: "text.file",
+		})
+	}
+	if (typeof stepText.text !== "string") {
+		throw new RecordingFormatError("expected a string", {
+			index,
+			sequence,
+			field: "text.text",
+		})
+	}
+
+	const type = stepText.type ?? "content"
+	if (!STEP_TYPES.includes(type as StepType)) {
+		throw new RecordingFormatError(
+			`expected one of ${STEP_TYPES.join(", ")}`,
+			{ index, sequence, field: "text.type" },
+		)
+	}
+
+	const decoded: Omit<RecordedStep, "index"> = {
+		sequence,
+		timeStart: step.timeStart as number,
+		timeEnd: step.timeEnd as number,
+		file: stepText.file,
+		text: stepText.text,
+		language: step.language ?? "",
+		type: type as StepType,
+	}
+
+	if (type === "selection") {
+		decoded.selections = validateSelections(stepText.selections, {
+			index,
+			sequence,
+		})
+		return decoded
+	}
+
+	if (type === "viewport") {
+		decoded.visibleRange = validateVisibleRange(stepText.visibleRange, {
+			index,
+			sequence,
+		})
+		return decoded
+	}
+
+	if (
+		stepText.rangeOffset === undefined &&
+		stepText.rangeLength === undefined
+	) {
+		return decoded
+	}
+	decoded.edit = validateEdit(stepText.rangeOffset, stepText.rangeLength, {
+		index,
+		sequence,
+	})
+	return decoded
+}
+
+/**
+ * Validates a recording and decodes its steps.
+ *
+ * Malformed steps, and delta steps whose range falls outside their file,
+ * throw a `RecordingFormatError` naming the step and the field at fault.
+ * Steps whose `sequence` or `timeStart` go backwards, or whose `timeEnd`
+ * precedes `timeStart`, are accepted with a warning and the steps are
+ * ordered by time.
+ *
+ * @param {string | ChangeStep[]} source - The recording, its JSON serialization or a VS Code Recorder CSV export.
+ * @returns {LoadedRecording} - The decoded steps and the warnings raised.
+ */
+export function loadRecording(
+	source: string | readonly ChangeStep[],
+): LoadedRecording {
+	let value: unknown = source
+	if (typeof source === "string") {
+		value = isRecorderCsv(source)
+			? parseRecorderCsv(source)
+			: parseJson(source, {})
+	}
+	if (!Array.isArray(value)) {
+		throw new RecordingFormatError("Expected an array of change steps")
+	}
+
+	const warnings: RecordingWarning[] = []
+	const decoded = value.map((item: unknown, index) => {
+		const step = decodeStep(item, index)
+		const previous = index > 0 ? (value[index - 1] as ChangeStep) : null
+		const warn = (message: string) =>
+			warnings.push({ index, sequence: step.sequence, message })
+
+		if (previous && step.sequence <= previous.sequence) {
+			warn(`sequence ${step.sequence} does not follow ${previous.sequence}`)
+		}
+		if (previous && step.timeStart < previous.timeStart) {
+			warn(`timeStart ${step.timeStart} precedes ${previous.timeStart}`)
+		}
+		if (step.timeEnd < step.timeStart) {
+			warn(`timeEnd ${step.timeEnd} precedes timeStart ${step.timeStart}`)
+			step.timeEnd = step.timeStart
+		}
+		return { step, position: index }
+	})
+
+	decoded.sort(
+		(a, b) => a.step.timeStart - b.step.timeStart || a.position - b.position,
+	)
+
+	const checkRange = createRangeChecker()
+	for (const { step, position } of decoded) checkRange(step, position)
+
+	const steps = decoded.map(({ step }, index) => ({ ...step, index }))
+
+	return { steps, warnings }
+}
@@ -0,0 +1,346 @@
+import type { ChangeStep, StepSelection, StepVisibleRange } from "../types"
+import type { RecordedStep } from "../engine/snapshot"
+import {
+	createRangeChecker,
+	loadRecording,
+	validateEdit,
+	validateSelections,
+	validateVisibleRange,
+} from "./loader"
+import { RecordingFormatError } from "./errors"
+import {
+	createStreamingSource,
+	type RecordingSource,
+	type StreamingRecordingSource,
+} from "./source"
+
+/**
+ * Bytes opening every packed recording: "VCPR" followed by the format version.
+ */
+const PACKED_HEADER = [0x56, 0x43, 0x50, 0x52, 1]
+
+/**
+ * Number of bytes storing the length of a chunk.
+ */
+const LENGTH_BYTES = 4
+
+/**
+ * The event carried by a selection or viewport step.
+ */
+interface PackedEvent {
+	type: "selection" | "viewport"
+	selections?: StepSelection[]
+	visibleRange?: StepVisibleRange
+}
+
+/**
+ * A step as stored in a packed chunk:
+ * `[sequenceDelta, timeStartDelta, duration, fileRef, languageRef, text, rangeOffset?, rangeLength?, event?]`.
+ * Deltas are relative to the previous step, refs point into the string table.
+ * The range is `null` for steps that carry an event.
+ */
+type PackedStep = [
+	number,
+	number,
+	number,
+	number,
+	number,
+	string,
+	(number | null)?,
+	(number | null)?,
+	PackedEvent?,
+]
+
+/**
+ * The content of a chunk before compression.
+ * @property {string[]} strings - The entries added to the string table by this chunk.
+ * @property {PackedStep[]} steps - The steps of the chunk.
+ */
+interface PackedChunk {
+	strings: string[]
+	steps: PackedStep[]
+}
+
+/**
+ * Options of the packed encoder.
+ * @property {number} stepsPerChunk - Number of steps per chunk. Smaller chunks start playing sooner.
+ */
+interface PackOptions {
+	stepsPerChunk?: number
+}
+
+/**
+ * Anything the packed decoder can read from.
+ */
+export type PackedRecordingInput =
+	| ReadableStream<Uint8Array>
+	| Response
+	| Promise<Response>
+	| ArrayBuffer
+	| Uint8Array
+
+/**
+ * Pipes bytes through a compression or decompression stream.
+ */
+async function transformBytes(
+	bytes: Uint8Array,
+	transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+	const stream = new Blob([bytes]).stream().pipeThrough(transform)
+	return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Joins two byte arrays.
+ */
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+	const result = new Uint8Array(a.length + b.length)
+	result.set(a)
+	result.set(b, a.length)
+	return result
+}
+
+/**
+ * Converts a recording into the packed format.
+ *
+ * The recording is split into gzip-compressed chunks. Times and sequence
+ * numbers are stored as deltas and file paths and languages go through a
+ * string table, so a chunk only carries the text of its steps. Each chunk
+ * can be decoded as soon as it is downloaded.
+ *
+ * @param {string | ChangeStep[]} recording - The recording, its JSON serialization or a VS Code Recorder CSV export.
+ * @param {PackOptions} options - The encoder options.
+ * @returns {Promise<Uint8Array>} - The packed recording.
+ * @throws {RecordingFormatError} - If the recording is not valid.
+ */
+export async function encodePackedRecording(
+	recording: string | readonly ChangeStep[],
+	{ stepsPerChunk = 500 }: PackOptions = {},
+): Promise<Uint8Array> {
+	const { steps } = loadRecording(recording)
+	const stringRefs = new Map<string, number>()
+	const encoder = new TextEncoder()
+	let bytes: Uint8Array = new Uint8Array(PACKED_HEADER)
+	let previousSequence = 0
+	let previousTime = 0
+
+	for (let start = 0; start < steps.length; start += stepsPerChunk) {
+		const chunk: PackedChunk = { strings: [], steps: [] }
+		const ref = (value: string) => {
+			let index = stringRefs.get(value)
+			if (index === undefined) {
+				index = stringRefs.size
+				stringRefs.set(value, index)
+				chunk.strings.push(value)
+			}
+			return index
+		}
+
+		for (const step of steps.slice(start, start + stepsPerChunk)) {
+			const packed: PackedStep = [
+				step.sequence - previousSequence,
+				step.timeStart - previousTime,
+				step.timeEnd - step.timeStart,
+				ref(step.file),
+				ref(step.language),
+				step.text,
+			]
+			if (step.edit) {
+				packed.push(step.edit.rangeOffset, step.edit.rangeLength)
+			} else if (step.type !== "content") {
+				packed.push(null, null, {
+					type: step.type,
+					selections: step.selections,
+					visibleRange: step.visibleRange,
+				})
+			}
+			chunk.steps.push(packed)
+			previousSequence = step.sequence
+			previousTime = step.timeStart
+		}
+
+		const compressed = await transformBytes(
+			encoder.encode(JSON.stringify(chunk)),
+			new CompressionStream("gzip"),
+		)
+		const length = new Uint8Array(LENGTH_BYTES)
+		new DataView(length.buffer).setUint32(0, compressed.length)
+		bytes = concatBytes(concatBytes(bytes, length), compressed)
+	}
+	return bytes
+}
+
+/**
+ * Decodes packed chunks one at a time, keeping the string table, the delta
+ * bases and the file lengths between chunks. Every step goes through the same
+ * checks as `loadRecording`.
+ */
+function createChunkDecoder() {
+	const strings: string[] = []
+	const checkRange = createRangeChecker()
+	let previousSequence = 0
+	let previousTime = 0
+	let index = 0
+
+	const isNumber = (value: unknown): value is number =>
+		typeof value === "number" && isFinite(value)
+
+	return (chunk: unknown): Omit<RecordedStep, "index">[] => {
+		const { strings: newStrings, steps } = (chunk ?? {}) as PackedChunk
+		if (!Array.isArray(newStrings) || !Array.isArray(steps)) {
+			throw new RecordingFormatError("Malformed packed chunk")
+		}
+		strings.push(...newStrings)
+
+		return steps.map((packed: unknown) => {
+			const fail = (field: string): never => {
+				throw new RecordingFormatError("malformed packed step", {
+					index,
+					sequence: previousSequence,
+					field,
+				})
+			}
+			if (!Array.isArray(packed)) fail("step")
+			const [
+				sequenceDelta,
+				timeDelta,
+				duration,
+				fileRef,
+				languageRef,
+				text,
+				rangeOffset,
+				rangeLength,
+				event,
+			] = packed as unknown[]
+			if (!isNumber(sequenceDelta)) fail("sequence")
+			if (!isNumber(timeDelta) || timeDelta < 0) fail("timeStart")
+			if (!isNumber(duration) || duration < 0) fail("timeEnd")
+			if (typeof strings[fileRef as number] !== "string") fail("file")
+			if (typeof strings[languageRef as number] !== "string") fail("language")
+			if (typeof text !== "string") fail("text")
+			const { type, selections, visibleRange } = (event ??
+				{}) as Partial<PackedEvent>
+			if (
+				event !== undefined &&
+				type !== "selection" &&
+				type !== "viewport"
+			) {
+				fail("type")
+			}
+
+			previousSequence += sequenceDelta as number
+			previousTime += timeDelta as number
+			const details = { index, sequence: previousSequence }
+			const step: Omit<RecordedStep, "index"> = {
+				sequence: previousSequence,
+				timeStart: previousTime,
+				timeEnd: previousTime + (duration as number),
+				file: strings[fileRef as number],
+				text: text as string,
+				language: strings[languageRef as number],
+				type: type ?? "content",
+			}
+			if (type === "selection") {
+				step.selections = validateSelections(selections, details)
+			} else if (type === "viewport") {
+				step.visibleRange = validateVisibleRange(visibleRange, details)
+			} else if (rangeOffset !== undefined && rangeOffset !== null) {
+				step.edit = validateEdit(rangeOffset, rangeLength, details)
+			}
+			checkRange(step, index)
+			index++
+			return step
+		})
+	}
+}
+
+/**
+ * Reads a packed recording chunk by chunk and appends the steps to `source`
+ * as soon as each chunk is decoded.
+ */
+async function readPackedRecording(
+	input: PackedRecordingInput,
+	source: StreamingRecordingSource,
+) {
+	const resolved = await input
+	let stream: ReadableStream<Uint8Array> | null
+	if (resolved instanceof Response) {
+		if (!resolved.ok) {
+			throw new RecordingFormatError(
+				`Unable to download the recording (HTTP ${resolved.status})`,
+			)
+		}
+		stream = resolved.body
+	} else if (resolved instanceof ArrayBuffer || resolved instanceof Uint8Array) {
+		stream = new Blob([resolved]).stream()
+	} else {
+		stream = resolved
+	}
+	if (!stream) throw new RecordingFormatError("The recording is empty")
+
+	const reader = stream.getReader()
+	const decoder = new TextDecoder()
+	const decodeChunk = createChunkDecoder()
+	let buffer: Uint8Array = new Uint8Array(0)
+	let headerRead = false
+
+	for (;;) {
+		const { done, value } = await reader.read()
+		if (value) buffer = concatBytes(buffer, value)
+
+		if (!headerRead && buffer.length >= PACKED_HEADER.length) {
+			if (PACKED_HEADER.some((byte, position) => buffer[position] !== byte)) {
+				throw new RecordingFormatError("Not a packed recording")
+			}
+			buffer = buffer.subarray(PACKED_HEADER.length)
+			headerRead = true
+		}
+
+		while (headerRead && buffer.length >= LENGTH_BYTES) {
+			const length = new DataView(
+				buffer.buffer,
+				buffer.byteOffset,
+				LENGTH_BYTES,
+			).getUint32(0)
+			if (buffer.length < LENGTH_BYTES + length) break
+			const compressed = buffer.subarray(LENGTH_BYTES, LENGTH_BYTES + length)
+			buffer = buffer.subarray(LENGTH_BYTES + length)
+			const json = decoder.decode(
+				await transformBytes(compressed, new DecompressionStream("gzip")),
+			)
+			source.append(decodeChunk(JSON.parse(json)))
+		}
+
+		if (done) break
+	}
+
+	if (!headerRead || buffer.length > 0) {
+		throw new RecordingFormatError("The packed recording is truncated")
+	}
+}
+
+/**
+ * Starts loading a packed recording and returns its source right away. The
+ * player can start playing as soon as the first chunk is decoded, and later
+ * chunks append their steps while it plays.
+ *
+ * @param {PackedRecordingInput} input - The packed bytes, a stream of them or the response of a `fetch`.
+ * @returns {RecordingSource} - The recording source to pass as `sourceCode`.
+ */
+export function loadPackedRecording(
+	input: PackedRecordingInput,
+): RecordingSource {
+	const source = createStreamingSource()
+	readPackedRecording(input, source).then(source.complete, (error) => {
+		source.fail(
+			error instanceof RecordingFormatError
+				? error
+				: new RecordingFormatError(
+						`Unable to read the packed recording (${
+							error instanceof Error ? error.message : String(error)
+						})`,
+					),
+		)
+	})
+	return source
+}
@@ -0,0 +1,134 @@
+import type { ChangeStep } from "../types"
+import type { RecordedStep } from "../engine/snapshot"
+import { loadRecording, type RecordingWarning } from "./loader"
+import { RecordingFormatError } from "./errors"
+
+/**
+ * A recording whose steps may still be loading. The player plays the steps
+ * loaded so far and picks up new ones as they arrive.
+ */
+export interface RecordingSource {
+	/** The steps loaded so far, ordered by time. New steps are only appended. */
+	getSteps: () => readonly RecordedStep[]
+	/** The problems the loader worked around. */
+	getWarnings: () => readonly RecordingWarning[]
+	/** The error that stopped the loading, if any. */
+	getError: () => RecordingFormatError | null
+	/** Whether every step has been loaded or the loading failed. */
+	isComplete: () => boolean
+	/** Calls `listener` whenever steps are appended or the loading ends. Returns the unsubscribe function. */
+	subscribe: (listener: () => void) => () => void
+}
+
+/**
+ * A recording source fed step by step by a loader.
+ */
+export interface StreamingRecordingSource extends RecordingSource {
+	/** Appends steps, which must not start before the last loaded step. */
+	append: (steps: readonly Omit<RecordedStep, "index">[]) => void
+	/** Marks the loading as complete. */
+	complete: () => void
+	/** Stops the loading with an error. */
+	fail: (error: RecordingFormatError) => void
+}
+
+/**
+ * Returns whether a value is a `RecordingSource` rather than a recording.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - Whether the value is a recording source.
+ */
+export function isRecordingSource(value: unknown): value is RecordingSource {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as RecordingSource).subscribe === "function" &&
+		typeof (value as RecordingSource).getSteps === "function"
+	)
+}
+
+/**
+ * Creates an empty source that a loader fills as data arrives.
+ *
+ * @returns {StreamingRecordingSource} - The recording source.
+ */
+export function createStreamingSource(): StreamingRecordingSource {
+	const steps: RecordedStep[] = []
+	const listeners: (() => void)[] = []
+	let error: RecordingFormatError | null = null
+	let complete = false
+
+	const notify = () => {
+		for (const listener of listeners.slice()) listener()
+	}
+
+	return {
+		getSteps: () => steps,
+		getWarnings: () => [],
+		getError: () => error,
+		isComplete: () => complete,
+		subscribe: (listener) => {
+			listeners.push(listener)
+			return () => {
+				const position = listeners.indexOf(listener)
+				if (position !== -1) listeners.splice(position, 1)
+			}
+		},
+		append: (newSteps) => {
+			if (complete || newSteps.length === 0) return
+			for (const step of newSteps) {
+				const last = steps[steps.length - 1]
+				if (last && step.timeStart < last.timeStart) {
+					throw new RecordingFormatError(
+						`timeStart ${step.timeStart} precedes the loaded steps`,
+						{ index: steps.length, sequence: step.sequence, field: "timeStart" },
+					)
+				}
+				steps.push({ ...step, index: steps.length })
+			}
+			notify()
+		},
+		complete: () => {
+			if (complete) return
+			complete = true
+			notify()
+		},
+		fail: (nextError) => {
+			if (complete) return
+			error = nextError
+			complete = true
+			notify()
+		},
+	}
+}
+
+/**
+ * Creates a complete source from a recording that is already available,
+ * capturing its format errors instead of throwing them.
+ *
+ * @param {string | ChangeStep[]} recording - The recording, its JSON serialization or a VS Code Recorder CSV export.
+ * @returns {RecordingSource} - The recording source.
+ */
+export function createStaticSource(
+	recording: string | readonly ChangeStep[],
+): RecordingSource {
+	let steps: readonly RecordedStep[] = []
+	let warnings: readonly RecordingWarning[] = []
+	let error: RecordingFormatError | null = null
+	try {
+		const loaded = loadRecording(recording)
+		steps = loaded.steps
+		warnings = loaded.warnings
+	} catch (loadError) {
+		if (!(loadError instanceof RecordingFormatError)) throw loadError
+		error = loadError
+	}
+
+	return {
+		getSteps: () => steps,
+		getWarnings: () => warnings,
+		getError: () => error,
+		isComplete: () => true,
+		subscribe: () => () => undefined,
+	}
+}
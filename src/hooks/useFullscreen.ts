@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState, type RefObject } from "react"
+
+/**
+ * Tracks whether an element is shown in fullscreen and toggles it through
+ * the Fullscreen API. Leaving fullscreen with Esc is reported as well.
+ *
+ * @param {RefObject<HTMLElement>} ref - The element shown in fullscreen.
+ * @returns The fullscreen state, whether the browser allows it and the toggle.
+ */
+export function useFullscreen(ref: RefObject<HTMLElement>) {
+	const [isFullscreen, setIsFullscreen] = useState(false)
+	const isSupported =
+		typeof document !== "undefined" && document.fullscreenEnabled === true
+
+	useEffect(() => {
+		if (typeof document === "undefined") return
+		const update = () =>
+			setIsFullscreen(
+				ref.current !== null && document.fullscreenElement === ref.current,
+			)
+		document.addEventListener("fullscreenchange", update)
+		return () => document.removeEventListener("fullscreenchange", update)
+	}, [ref])
+
+	const setFullscreen = useCallback(
+		(fullscreen: boolean) => {
+			const element = ref.current
+			if (!element || !isSupported) return
+			if (fullscreen && document.fullscreenElement !== element) {
+				element.requestFullscreen().catch(() => undefined)
+			} else if (!fullscreen && document.fullscreenElement === element) {
+				document.exitFullscreen().catch(() => undefined)
+			}
+		},
+		[isSupported, ref],
+	)
+
+	const toggleFullscreen = useCallback(
+		() => setFullscreen(document.fullscreenElement !== ref.current),
+		[ref, setFullscreen],
+	)
+
+	return { isFullscreen, isSupported, setFullscreen, toggleFullscreen }
+}
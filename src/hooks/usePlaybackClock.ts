@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { PlayerState } from "../types"
+import {
+	animationFrameClock,
+	createPlaybackScheduler,
+	type SchedulerClock,
+} from "../engine/scheduler"
+
+/**
+ * Minimum wall time in milliseconds between two updates of `currentTime`
+ * while playing. The editor follows every frame through `onFrame`, so only
+ * the controls and what reads the React state update at this rate.
+ */
+const TIME_UPDATE_INTERVAL = 100
+
+/**
+ * Playback values pushed by a host that drives the player.
+ */
+interface ControlledPlayback {
+	currentTime: number
+	playerState: PlayerState
+	currentSpeed: number
+}
+
+/**
+ * Options for the playback clock.
+ * @property {ControlledPlayback} controlled - Values pushed by the host. When omitted the clock owns time, state and speed.
+ * @property {number} duration - Total duration of the recording in seconds.
+ * @property {number} initialSpeed - The playback speed the clock starts with.
+ * @property {boolean} autoPlay - Whether an uncontrolled clock starts playing on mount.
+ * @property {boolean} buffering - Whether more of the recording is still loading. Reaching `duration` then waits instead of ending.
+ * @property {SchedulerClock} clock - The time source of the scheduler, read once on mount.
+ * @property {() => void} onEnded - Called when an uncontrolled clock reaches the end of the recording.
+ * @property {(time: number) => void} onFrame - Called with the exact playback time on every frame while playing.
+ */
+interface PlaybackClockOptions {
+	controlled?: ControlledPlayback
+	duration: number
+	initialSpeed?: number
+	autoPlay?: boolean
+	buffering?: boolean
+	clock?: SchedulerClock
+	onEnded?: () => void
+	onFrame?: (time: number) => void
+}
+
+/**
+ * State and actions exposed by the playback clock.
+ */
+export interface PlaybackClock {
+	/** The playback time in seconds, updated every `TIME_UPDATE_INTERVAL` milliseconds while playing. */
+	currentTime: number
+	playerState: PlayerState
+	currentSpeed: number
+	play: () => void
+	pause: () => void
+	togglePlay: () => void
+	seek: (time: number) => void
+	setSpeed: (speed: number) => void
+	/** Returns the exact playback time in seconds. */
+	getTime: () => number
+	/** Returns whether the frame loop is running, calling `onFrame` on every frame. */
+	isRunning: () => boolean
+}
+
+/**
+ * Drives playback with a single frame scheduler.
+ *
+ * An uncontrolled clock owns the playback time, state and speed and switches
+ * to `PlayerState.ENDED` once `duration` is reached, or to
+ * `PlayerState.BUFFERING` while the recording is still loading. A controlled clock
+ * follows the values pushed by the host and only extrapolates the time
+ * between two host updates, reporting it through `onFrame`. Playing never
+ * re-renders on every frame: `onFrame` receives the exact time and
+ * `currentTime` follows it at a lower rate.
+ */
+export function usePlaybackClock({
+	controlled,
+	duration,
+	initialSpeed = 1,
+	autoPlay = false,
+	buffering = false,
+	clock,
+	onEnded,
+	onFrame,
+}: PlaybackClockOptions): PlaybackClock {
+	const [currentTime, setCurrentTime] = useState(0)
+	const [playerState, setPlayerState] = useState(
+		autoPlay ? PlayerState.PLAYING : PlayerState.UNSTARTED,
+	)
+	const [currentSpeed, setCurrentSpeed] = useState(initialSpeed)
+	const isControlled = controlled !== undefined
+	const isControlledRef = useRef(isControlled)
+	const onEndedRef = useRef(onEnded)
+	const onFrameRef = useRef(onFrame)
+	const bufferingRef = useRef(buffering)
+	isControlledRef.current = isControlled
+	bufferingRef.current = buffering
+	onEndedRef.current = onEnded
+	onFrameRef.current = onFrame
+
+	const [scheduler] = useState(() => {
+		const schedulerClock = clock ?? animationFrameClock
+		let lastUpdate = -Infinity
+		return createPlaybackScheduler({
+			clock: schedulerClock,
+			speed: initialSpeed,
+			onTick: (time) => {
+				onFrameRef.current?.(time)
+				if (isControlledRef.current) return
+				const now = schedulerClock.now()
+				if (now - lastUpdate < TIME_UPDATE_INTERVAL) return
+				lastUpdate = now
+				setCurrentTime(time)
+			},
+			onEnded: () => {
+				if (isControlledRef.current) return
+				setCurrentTime(scheduler.getTime())
+				if (bufferingRef.current) {
+					setPlayerState(PlayerState.BUFFERING)
+					return
+				}
+				setPlayerState(PlayerState.ENDED)
+				onEndedRef.current?.()
+			},
+		})
+	})
+
+	const effectiveTime = controlled?.currentTime ?? currentTime
+	const effectiveState = controlled?.playerState ?? playerState
+	const effectiveSpeed = controlled?.currentSpeed ?? currentSpeed
+	const controlledTime = controlled?.currentTime
+
+	useEffect(() => () => scheduler.dispose(), [scheduler])
+
+	useEffect(() => {
+		scheduler.setDuration(duration)
+	}, [duration, scheduler])
+
+	// Riallineo lo scheduler a ogni aggiornamento del tempo da parte dell'host
+	useEffect(() => {
+		if (controlledTime !== undefined) scheduler.seek(controlledTime)
+	}, [controlledTime, scheduler])
+
+	useEffect(() => {
+		scheduler.setSpeed(effectiveSpeed)
+	}, [effectiveSpeed, scheduler])
+
+	// Riprendo quando arrivano nuovi step, o termino se il caricamento è finito
+	useEffect(() => {
+		if (isControlled || playerState !== PlayerState.BUFFERING) return
+		if (scheduler.getTime() < duration) {
+			setPlayerState(PlayerState.PLAYING)
+		} else if (!buffering) {
+			setPlayerState(PlayerState.ENDED)
+			onEndedRef.current?.()
+		}
+	}, [buffering, duration, isControlled, playerState, scheduler])
+
+	useEffect(() => {
+		if (effectiveState === PlayerState.PLAYING) {
+			scheduler.play()
+		} else {
+			scheduler.pause()
+		}
+	}, [effectiveState, scheduler])
+
+	const seek = useCallback(
+		(time: number) => {
+			scheduler.seek(time)
+			const nextTime = scheduler.getTime()
+			setCurrentTime(nextTime)
+			setPlayerState((prev) =>
+				prev === PlayerState.ENDED && nextTime < duration
+					? PlayerState.PAUSED
+					: prev,
+			)
+		},
+		[duration, scheduler],
+	)
+
+	const play = useCallback(() => {
+		if (scheduler.getTime() >= duration) {
+			// Alla fine della parte caricata aspetto i nuovi step invece di ricominciare
+			if (buffering) {
+				setPlayerState(PlayerState.BUFFERING)
+				return
+			}
+			scheduler.seek(0)
+			setCurrentTime(0)
+		}
+		setPlayerState(PlayerState.PLAYING)
+	}, [buffering, duration, scheduler])
+
+	const pause = useCallback(() => {
+		scheduler.pause()
+		setCurrentTime(scheduler.getTime())
+		setPlayerState((prev) =>
+			prev === PlayerState.PLAYING || prev === PlayerState.BUFFERING
+				? PlayerState.PAUSED
+				: prev,
+		)
+	}, [scheduler])
+
+	const togglePlay = useCallback(() => {
+		if (
+			playerState === PlayerState.PLAYING ||
+			playerState === PlayerState.BUFFERING
+		) {
+			pause()
+		} else {
+			play()
+		}
+	}, [pause, play, playerState])
+
+	const setSpeed = useCallback((speed: number) => {
+		setCurrentSpeed(speed)
+	}, [])
+
+	return {
+		currentTime: effectiveTime,
+		playerState: effectiveState,
+		currentSpeed: effectiveSpeed,
+		play,
+		pause,
+		togglePlay,
+		seek,
+		setSpeed,
+		getTime: scheduler.getTime,
+		isRunning: scheduler.isPlaying,
+	}
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react"
+
+const LIGHT_QUERY = "(prefers-color-scheme: light)"
+
+/**
+ * Reads the color scheme preferred by the viewer and follows its changes.
+ * Outside the browser the scheme is `dark`, the default of the player.
+ *
+ * @param {boolean} enabled - Whether to listen to the preference. A disabled hook keeps its last value.
+ * @returns {"dark" | "light"} - The preferred color scheme.
+ */
+export function usePrefersColorScheme(enabled: boolean): "dark" | "light" {
+	const [scheme, setScheme] = useState<"dark" | "light">(() =>
+		enabled &&
+		typeof window !== "undefined" &&
+		window.matchMedia?.(LIGHT_QUERY).matches
+			? "light"
+			: "dark",
+	)
+
+	useEffect(() => {
+		if (!enabled || typeof window === "undefined" || !window.matchMedia) {
+			return
+		}
+		const query = window.matchMedia(LIGHT_QUERY)
+		const update = () => setScheme(query.matches ? "light" : "dark")
+		update()
+		query.addEventListener("change", update)
+		return () => query.removeEventListener("change", update)
+	}, [enabled])
+
+	return scheme
+}
@@ -1,4 +1,35 @@
-export { default as VSCodePlayer } from './components/VSCodePlayer'
-export type { VSCodePlayerProps, ContentRecord, PlayerState } from './types'
+export { default as VSCodePlayer, usePlayer } from './components/VSCodePlayer'
+export { PlayerState } from './types'
+export type {
+  AdaptivePlayerTheme,
+  CaptionCue,
+  ChangeStep,
+  Chapter,
+  FileIconTheme,
+  LanguageDefinition,
+  PlayerColors,
+  PlayerLayout,
+  PlayerTheme,
+  StepSelection,
+  StepText,
+  StepType,
+  StepVisibleRange,
+  TypewriterOptions,
+  VSCodePlayerHandle,
+  VSCodePlayerOptions,
+  VSCodePlayerProps,
+} from './types'
+export type { SandboxEdit } from './engine/sandbox'
+export { loadRecording } from './format/loader'
+export { parseRecorderCsv } from './format/csv'
+export { parseCaptions } from './format/captions'
+export { RecordingFormatError } from './format/errors'
+export { encodePackedRecording, loadPackedRecording } from './format/packed'
+export type { PackedRecordingInput } from './format/packed'
+export { exportRecording } from './export/video'
+export type { ExportOptions } from './export/video'
+export type { FrameRasterizer, FrameStyle, RasterFrame } from './export/frame'
+export type { RecordingSource } from './format/source'
+export type { LoadedRecording, RecordingWarning } from './format/loader'
 
-import './styles.css' 
\ No newline at end of file
+import './styles.css'
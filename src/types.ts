@@ -1,3 +1,9 @@
+import type React from 'react'
+import type { editor, languages } from 'monaco-editor'
+import type { SandboxEdit } from './engine/sandbox'
+import type { RecordingFormatError } from './format/errors'
+import type { RecordingSource } from './format/source'
+
 /**
  * Represents a file in the Monaco editor
  */
@@ -28,79 +34,450 @@ export enum PlayerState {
 }
 
 /**
- * A record of content changes
+ * Kind of event recorded by a step.
+ * - `content`: the file changed, the default.
+ * - `selection`: the author moved the cursor or changed the selection.
+ * - `viewport`: the author scrolled.
  */
-export interface ContentRecord {
-  sequence: number
-  startTime: number
-  endTime: number
-  file: string
+export type StepType = 'content' | 'selection' | 'viewport'
+
+/**
+ * A selection of the author, as character offsets in the file.
+ * @property {number} anchor - Where the selection started.
+ * @property {number} active - Where the cursor is. Equal to `anchor` for a plain cursor.
+ */
+export interface StepSelection {
+  anchor: number
+  active: number
+}
+
+/**
+ * The lines visible in the author's editor.
+ * @property {number} startLine - The first visible line, starting from 1.
+ * @property {number} endLine - The last visible line.
+ */
+export interface StepVisibleRange {
+  startLine: number
+  endLine: number
+}
+
+/**
+ * Represents the change recorded by a step along with the file it belongs to.
+ * This is the payload serialized as JSON in `ChangeStep.text`.
+ *
+ * A content step without a range is a keyframe and `text` holds the complete file.
+ * A content step with `rangeOffset` and `rangeLength` is a delta: `text` replaces
+ * `rangeLength` characters starting at `rangeOffset`. Selection and viewport
+ * steps leave the file unchanged and their `text` is ignored.
+ * @property {string} text - The complete file, or the inserted text of a delta.
+ * @property {string} file - The file that the change belongs to.
+ * @property {StepType} type - The kind of event, `content` when omitted.
+ * @property {number} rangeOffset - Offset of the replaced range, for delta steps.
+ * @property {number} rangeLength - Length of the replaced range, for delta steps.
+ * @property {StepSelection[]} selections - The author's selections, for selection steps. The first one is the primary.
+ * @property {StepVisibleRange} visibleRange - The lines visible to the author, for viewport steps.
+ */
+export interface StepText {
   text: string
+  file: string
+  type?: StepType
+  rangeOffset?: number
+  rangeLength?: number
+  selections?: StepSelection[]
+  visibleRange?: StepVisibleRange
+}
+
+/**
+ * A single step of a change in the recorded content
+ */
+export interface ChangeStep {
+	sequence: number
+	timeStart: number
+	timeEnd: number
+	text: string
   language: string
 }
 
+/**
+ * A chapter or marker of the recording.
+ * @property {number} time - Time in seconds at which the chapter starts.
+ * @property {string} title - The title shown in the progress bar and in the chapter menu.
+ * @property {string} file - The file the chapter is about, opened when the viewer jumps to the chapter.
+ */
+export interface Chapter {
+  time: number
+  title: string
+  file?: string
+}
+
+/**
+ * A caption of the narration track.
+ * @property {number} start - Time in seconds at which the caption appears.
+ * @property {number} end - Time in seconds at which the caption disappears.
+ * @property {string} text - The text of the caption, possibly on several lines.
+ */
+export interface CaptionCue {
+  start: number
+  end: number
+  text: string
+}
+
+/**
+ * A language added by the host, to recognize more files or to highlight a
+ * language Monaco does not know.
+ * @property {string} id - The Monaco language id.
+ * @property {string[]} extensions - File extensions of the language, without the dot.
+ * @property {string[]} filenames - Exact file names of the language, such as `Jenkinsfile`.
+ * @property {languages.IMonarchLanguage} tokenizer - Monarch tokenizer, to register the language when Monaco does not know it.
+ * @property {languages.LanguageConfiguration} configuration - Comments, brackets and indentation rules of the registered language.
+ */
+export interface LanguageDefinition {
+  id: string
+  extensions?: string[]
+  filenames?: string[]
+  tokenizer?: languages.IMonarchLanguage
+  configuration?: languages.LanguageConfiguration
+}
+
+/**
+ * Icons shown next to file names in the tabs and in the file explorer. A
+ * file gets the icon of its name, then of its extension, then of its language.
+ * @property {Record<string, React.ReactNode>} fileNames - Icons by file name in lower case, such as `dockerfile` or `package.json`.
+ * @property {Record<string, React.ReactNode>} extensions - Icons by extension without the dot. Compound extensions such as `d.ts` are matched first.
+ * @property {Record<string, React.ReactNode>} languages - Icons by Monaco language id.
+ * @property {React.ReactNode} defaultIcon - Icon of the files that match nothing.
+ * @property {boolean} inherit - Whether the built-in icons fill in the missing ones. Defaults to `true`.
+ */
+export interface FileIconTheme {
+  fileNames?: Record<string, React.ReactNode>
+  extensions?: Record<string, React.ReactNode>
+  languages?: Record<string, React.ReactNode>
+  defaultIcon?: React.ReactNode
+  inherit?: boolean
+}
+
+/**
+ * Colors of the player chrome: controls, tabs, file explorer and menus. Each
+ * one sets a CSS custom property of `.vs-code-player`, such as `--vcp-accent`
+ * for `accent`, so they can also be set from a stylesheet.
+ */
+export interface PlayerColors {
+  background?: string
+  foreground?: string
+  surface?: string
+  border?: string
+  accent?: string
+  hover?: string
+  selection?: string
+  inactiveTab?: string
+  track?: string
+  highlight?: string
+  author?: string
+  authorSelection?: string
+  live?: string
+  error?: string
+}
+
+/**
+ * A theme of the player.
+ * @property {"dark" | "light"} base - The preset the theme starts from. Defaults to `"dark"`.
+ * @property {string | { name: string; definition: editor.IStandaloneThemeData }} editor - The Monaco theme:
+ *   the name of a built-in or registered theme, or a definition registered under `name`. Defaults to the one of the preset.
+ * @property {PlayerColors} colors - Colors of the player chrome replacing the ones of the preset.
+ */
+export interface PlayerTheme {
+  base?: 'dark' | 'light'
+  editor?: string | { name: string; definition: editor.IStandaloneThemeData }
+  colors?: PlayerColors
+}
+
+/**
+ * A pair of themes, chosen by the `prefers-color-scheme` of the viewer.
+ */
+export interface AdaptivePlayerTheme {
+  light: PlayerTheme
+  dark: PlayerTheme
+}
+
+/**
+ * Layout of the player: `compact` keeps the size set by `width` and
+ * `height`, `theater` spans the width of the container with a taller editor.
+ */
+export type PlayerLayout = 'compact' | 'theater'
+
+/**
+ * Options of the typewriter presentation, which types out large inserts
+ * across the duration of their step instead of showing them at once.
+ */
+export interface TypewriterOptions {
+  /** Whether large inserts are typed out. Defaults to `false`. */
+  enabled?: boolean
+  /** Minimum number of inserted characters that triggers the animation. Defaults to `40`. */
+  threshold?: number
+  /** Whether inserts are revealed one character or one line at a time. Defaults to `"character"`. */
+  granularity?: 'character' | 'line'
+}
+
+/**
+ * Options of the player. Every flag defaults to `true` unless stated otherwise.
+ */
+export interface VSCodePlayerOptions {
+  editor?: {
+    /** Whether viewers can type in the editor. */
+    editingEnabled?: boolean
+    /** Whether viewers can switch tabs. When disabled the tabs follow the recording. */
+    tabChangeEnabled?: boolean
+    /**
+     * Whether edits made while paused are kept until playback resumes, when
+     * the viewer chooses to discard or export them. Defaults to `false`.
+     */
+    sandboxEnabled?: boolean
+    /** How large inserts are presented. */
+    typewriter?: TypewriterOptions
+  }
+  controls?: {
+    /** Whether `VSCodePlayer.Controls` renders at all. */
+    enabled?: boolean
+    progressBarEnabled?: boolean
+    speedControlEnabled?: boolean
+    goForwardEnabled?: boolean
+    goBackwardEnabled?: boolean
+    playPauseEnabled?: boolean
+    /** Whether hovering the progress bar shows the code at that time. */
+    previewEnabled?: boolean
+    /** Whether the fullscreen button and its `F` shortcut are available, when the browser allows fullscreen. */
+    fullscreenEnabled?: boolean
+    /** Whether the theater mode button and its `T` shortcut are available. */
+    layoutToggleEnabled?: boolean
+  }
+}
+
 /**
  * Props for the VSCodePlayer component
+ *
+ * When `currentTime` is omitted the player runs uncontrolled: it owns its
+ * time, play/pause state and speed, and only reports changes through the
+ * callbacks.
  */
 export interface VSCodePlayerProps {
   /**
-   * Array of content records to play
+   * The recording to play, as a `ChangeStep` array, its JSON serialization,
+   * the CSV exported by the VS Code Recorder extension, or a source that is
+   * still loading, such as the one returned by `loadPackedRecording`.
+   * Strings are compared by content, arrays and sources by reference: a new
+   * array or source reloads the recording, so keep it stable between renders,
+   * for example with `useMemo`
    */
-  content: ContentRecord[]
-  
+  sourceCode: string | ChangeStep[] | RecordingSource
+
   /**
-   * Current time of the player
+   * Current time of the player in seconds. Omit it to let the player own its clock
    */
-  currentTime: number
-  
+  currentTime?: number
+
   /**
-   * Whether to show the controls
-   * @default true
+   * State of the player. Ignored when the player owns its clock
    */
-  showControls?: boolean
-  
+  playerState?: PlayerState
+
   /**
-   * Initial playback speed
+   * Current playback speed. Ignored when the player owns its clock
+   */
+  currentSpeed?: number
+
+  /**
+   * Initial playback speed when the player owns its clock
    * @default 1
    */
   initialSpeed?: number
-  
+
+  /**
+   * Whether an uncontrolled player starts playing on mount
+   * @default false
+   */
+  autoPlay?: boolean
+
   /**
    * Height of the editor in pixels or CSS value
    * @default "300px"
    */
   height?: string | number
-  
+
   /**
-   * Width of the editor in pixels or CSS value
+   * Width of the player in pixels or CSS value
    * @default "100%"
-   */ 
+   */
   width?: string | number
-  
+
+  /**
+   * Whether the player takes the size of its container instead of `width`
+   * and `height`. The editor fills the space left by the controls
+   * @default false
+   */
+  fill?: boolean
+
+  /**
+   * Layout of the player when it mounts. Viewers switch it from `VSCodePlayer.Controls`
+   * @default "compact"
+   */
+  initialLayout?: PlayerLayout
+
+  /**
+   * Theme of the player: `"dark"`, `"light"`, `"auto"` to follow the
+   * `prefers-color-scheme` of the viewer, a custom theme or a pair of themes
+   * for light and dark mode. Any other string is the name of a Monaco theme,
+   * shown with the chrome of the matching preset
+   * @default "dark"
+   */
+  theme?: string | PlayerTheme | AdaptivePlayerTheme
+
+  /**
+   * Whether to show the file explorer next to the editor
+   * @default false
+   */
+  showExplorer?: boolean
+
+  /**
+   * Languages to recognize in addition to the built-in ones. The language
+   * reported by the recorder still wins when Monaco knows it. Read when a
+   * file is opened
+   */
+  languages?: LanguageDefinition[]
+
+  /**
+   * Icons of the files in the tabs and in the file explorer
+   */
+  iconTheme?: FileIconTheme
+
   /**
-   * Theme for the Monaco editor
-   * @default "vs-dark"
+   * Chapters of the recording, shown as segments of the progress bar and in
+   * the chapter menu of `VSCodePlayer.Controls`
    */
-  theme?: string
-  
+  chapters?: Chapter[]
+
+  /**
+   * Whether to mark on the progress bar the first edit of each file
+   * @default false
+   */
+  showFileMarkers?: boolean
+
+  /**
+   * Narration track synced to the recording, as the contents of an SRT or
+   * WebVTT file or as a list of cues. Viewers toggle it from `VSCodePlayer.Controls`
+   */
+  captions?: string | CaptionCue[]
+
+  /**
+   * Whether captions are shown over the bottom of the editor or below it
+   * @default "overlay"
+   */
+  captionsPosition?: 'overlay' | 'below'
+
+  /**
+   * Options of the editor and the controls
+   */
+  options?: VSCodePlayerOptions
+
+  /**
+   * Children components, such as `VSCodePlayer.Controls`
+   */
+  children?: React.ReactNode
+
+  /**
+   * Callback when the viewer seeks to a time in seconds
+   */
+  onSeek?: (time: number) => void
+
+  /**
+   * Callback when the viewer changes the playback speed
+   */
+  onSpeedChange?: (speed: number) => void
+
+  /**
+   * Callback when the viewer toggles play/pause
+   */
+  onPlayPause?: () => void
+
   /**
    * Callback when playback state changes
    */
   onStateChange?: (state: PlayerState) => void
-  
+
   /**
-   * Callback when current time changes
+   * Callback when current time changes, at most every 100 ms while playing
    */
   onTimeUpdate?: (time: number) => void
+
+  /**
+   * Callback when an uncontrolled player reaches the end of the recording
+   */
+  onEnded?: () => void
+
+  /**
+   * Callback when the viewer exports the edits made in sandbox mode
+   */
+  onSandboxExport?: (edits: SandboxEdit[]) => void
+
+  /**
+   * Callback when `sourceCode` is not a valid recording. The player shows an
+   * error message instead of the editor
+   */
+  onError?: (error: RecordingFormatError) => void
+
+  /**
+   * Callback when the active caption changes, with `null` between captions
+   */
+  onCueChange?: (cue: CaptionCue | null) => void
+
+  /**
+   * Callback when the viewer switches between the compact and the theater layout
+   */
+  onLayoutChange?: (layout: PlayerLayout) => void
+
+  /**
+   * Callback when the player enters or leaves fullscreen
+   */
+  onFullscreenChange?: (fullscreen: boolean) => void
 }
 
 /**
- * A single step of a change in the recorded content
+ * Imperative API exposed through the `ref` of the VSCodePlayer component.
+ * Every action goes through the same callbacks as the built-in controls, so
+ * a controlled player still receives `onSeek`, `onSpeedChange` and `onPlayPause`.
  */
-export interface ChangeStep {
-	sequence: number
-	timeStart: number
-	timeEnd: number
-	text: string
-  language: string
-}
\ No newline at end of file
+export interface VSCodePlayerHandle {
+  /** Starts playback if the player is not already playing. */
+  play: () => void
+  /** Pauses playback if the player is playing. */
+  pause: () => void
+  /** Seeks to the given time in seconds. */
+  seek: (seconds: number) => void
+  /** Changes the playback speed. */
+  setSpeed: (speed: number) => void
+  /** Returns the current time in seconds. */
+  getCurrentTime: () => number
+  /** Returns the total duration in seconds. */
+  getDuration: () => number
+  /** Returns the current player state. */
+  getState: () => PlayerState
+  /**
+   * Returns the contents of a recorded file as currently shown by the player,
+   * or `undefined` if the file is unknown.
+   */
+  getFileContents: (path: string) => string | undefined
+  /** Returns the caption shown at the current time, or `null`. */
+  getActiveCue: () => CaptionCue | null
+  /** Shows or hides the captions. */
+  setCaptionsVisible: (visible: boolean) => void
+  /** Switches the layout of the player. */
+  setLayout: (layout: PlayerLayout) => void
+  /**
+   * Enters or leaves fullscreen. Browsers only allow entering it in response
+   * to a click or a key press of the viewer.
+   */
+  setFullscreen: (fullscreen: boolean) => void
+  /** Returns the edits made by the viewer in sandbox mode. */
+  getSandboxEdits: () => SandboxEdit[]
+  /** Discards the edits made by the viewer in sandbox mode. */
+  discardSandboxEdits: () => void
+}